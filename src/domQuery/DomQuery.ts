@@ -19,6 +19,15 @@ export default class DOMQuery<TQueryAPI = {}> extends State {
     return result;
   }
 
+  /**
+   * Disposes the DOM query. All projections are removed.
+   */
+  dispose() {
+    if (this.isDisposed) return;
+    this._domQueries.clear();
+    super.dispose();
+  }
+
   private _domQueries = new Map<any, TQueryAPI>();
 }
 
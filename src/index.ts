@@ -3,6 +3,19 @@ export {
   default as Task,
   TaskAction,
   TaskHelpers,
+  TaskGateHelpers,
+  TaskInvokeOptions,
+  TaskOutcome,
+  TaskOptions,
+  TaskConcurrency,
+  TaskRetryOptions,
+  TaskCacheOptions,
+  TaskDedupOptions,
+  TaskTimeoutError,
+  PendingIndicatorOptions,
+  TaskInvocationOutcome,
+  TaskInvocationRecord,
+  TaskHistoryStats,
   AddCancelHandler,
   InferTaskArg
 } from "./state/Task";
@@ -11,13 +24,24 @@ export {
   default as DataQuery,
   DataQueryOptions,
   FetchQuery,
-  FetchResultWithStats
+  FetchResultWithStats,
+  DataQueryPagination,
+  DataQueryDuplicatePolicy,
+  DataQuerySparseOptions,
+  DataQueryCacheOptions,
+  DataQueryPage,
+  DataQueryRange
 } from "./state/DataQuery";
 export {
   default as InputGroup,
   InputGroupContent,
   InferInputGroupShape
 } from "./state/InputGroup";
+export {
+  default as InputList,
+  InputListItem,
+  InputListOptions
+} from "./state/InputList";
 export { default as Validator, ValidationError } from "./state/Validator";
 export {
   default as ValidatedInput,
@@ -28,8 +52,42 @@ export {
   FormOptions,
   FormOrTask,
   AsTask,
-  FormValidationError
+  FormValidationError,
+  FormActionError
 } from "./state/Form";
+export {
+  default as TaskPipeline,
+  sequence,
+  PipelineStage,
+  PipelineProgress
+} from "./state/TaskPipeline";
+export { default as Poller, PollingOptions } from "./state/Poller";
+export { default as TaskGroup, TaskGroupMember } from "./state/TaskGroup";
+export {
+  default as UndoableTask,
+  UndoableTaskOptions
+} from "./state/UndoableTask";
+export { default as ConfirmationTask } from "./state/ConfirmationTask";
+export {
+  default as DedupRegistry,
+  defaultDedupRegistry
+} from "./state/DedupRegistry";
+export {
+  default as ListWindowState,
+  ListWindowOptions,
+  ListWindowRange,
+  ListWindowSlot
+} from "./state/ListWindow";
+export {
+  default as DataView,
+  DataViewOptions,
+  DataViewGroup
+} from "./state/DataView";
+export {
+  default as SelectionState,
+  SelectionOptions,
+  SelectionDescription
+} from "./state/Selection";
 export { default as HoverState } from "./state/Hover";
 export { default as FocusState } from "./state/Focus";
 export { default as MediaQueryState } from "./state/MediaQuery";
@@ -45,3 +103,5 @@ export { syncDOMState } from "./sync/syncDOMState";
 export { syncFocusState } from "./sync/syncFocusState";
 
 export * from "./utils/deepEqual";
+export { Clock, defaultClock } from "./utils/clock";
+export { VisibilitySource, documentVisibility } from "./utils/visibility";
@@ -0,0 +1,156 @@
+import { observable, action, reaction } from "mobx";
+import Task, { TaskAction, TaskOptions, TaskGateHelpers } from "./Task";
+
+/**
+ * Represents a task that runs only once the user confirms it, such as an
+ * action behind an "Are you sure?" dialog.
+ *
+ * Requesting the task (or invoking it, which is the same) stores the argument
+ * and waits for confirmation: [[isAwaitingConfirmation]] turns true, and a
+ * dialog can show [[pendingArgs]]. Then [[confirm]] runs the action with the
+ * stored argument, or [[dismiss]] discards the request, in which case the
+ * invocation is canceled.
+ *
+ * As the confirmation task is a task state, it can be used wherever a task is
+ * expected, e.g. by buttons that interact with a [[FormOrTask]]. The task is
+ * pending from the request until the action settles. Unless specified
+ * otherwise, the concurrency is `parallel`, so that a new request does not
+ * cancel an action that was already confirmed.
+ *
+ * @template TArg the task's argument type
+ * @template TResult the task's result type
+ * @template TProgress the task's progress readout type
+ */
+export default class ConfirmationTask<
+  TArg = any,
+  TResult = any,
+  TProgress = any
+> extends Task<TArg, TResult, TProgress> {
+  /**
+   * Instantiates the confirmation task state.
+   * @param action The action to run once confirmed. If this is a task state,
+   * it is invoked with the confirmation task's abort signal, and its progress
+   * is reported as the confirmation task's.
+   * @param options
+   */
+  constructor(
+    action:
+      | TaskAction<TArg, TResult, TProgress>
+      | Task<TArg, TResult, TProgress>,
+    options?: TaskOptions<TProgress>
+  ) {
+    super(action instanceof Task ? invokeTask(action) : action, {
+      concurrency: "parallel",
+      ...options
+    });
+  }
+
+  /**
+   * Returns true if a request is waiting for confirmation.
+   */
+  get isAwaitingConfirmation() {
+    return this._request !== null;
+  }
+
+  /**
+   * Returns the argument of the request that is waiting for confirmation. This
+   * is undefined if there is no such request.
+   */
+  get pendingArgs() {
+    return this._request ? this._request.args : void 0;
+  }
+
+  /**
+   * Requests to run the task with the specified argument. The task waits for
+   * confirmation, and a request that was already waiting is dismissed.
+   * @param args
+   * @returns a promise that resolves once the task is dismissed or has
+   * settled. It never rejects.
+   */
+  request(args: TArg) {
+    return this.invoke(args);
+  }
+
+  /**
+   * Confirms the request that is waiting for confirmation, so that the action
+   * runs with the stored argument.
+   * @returns true if a request was confirmed, false if there was none.
+   */
+  @action
+  confirm() {
+    const request = this._request;
+    if (!request) return false;
+    this._request = null;
+    request.confirm();
+    return true;
+  }
+
+  /**
+   * Dismisses the request that is waiting for confirmation. The action does
+   * not run, and the invocation ends with a `canceled` outcome.
+   * @returns true if a request was dismissed, false if there was none.
+   */
+  @action
+  dismiss() {
+    const request = this._request;
+    if (!request) return false;
+    request.helpers.cancel();
+    return true;
+  }
+
+  /**
+   * Holds the invocation back until it is confirmed or dismissed.
+   */
+  @action
+  protected gate(args: TArg, helpers: TaskGateHelpers<TProgress>) {
+    this.dismiss();
+    return new Promise<void>(resolve => {
+      const request = { args, helpers, confirm: resolve };
+      helpers.onCancel(
+        action(() => {
+          if (this._request === request) this._request = null;
+        })
+      );
+      this._request = request;
+    });
+  }
+
+  @observable.ref
+  private _request: ConfirmationRequest<TArg, TProgress> | null = null;
+}
+
+/**
+ * Describes a request of a [[ConfirmationTask]] that is waiting for
+ * confirmation.
+ */
+interface ConfirmationRequest<TArg, TProgress> {
+  args: TArg;
+  helpers: TaskGateHelpers<TProgress>;
+  confirm: () => void;
+}
+
+/**
+ * Creates a task action that invokes a task state and settles like it.
+ * @param task
+ */
+function invokeTask<TArg, TResult, TProgress>(
+  task: Task<TArg, TResult, TProgress>
+): TaskAction<TArg, TResult, TProgress> {
+  return async (arg, helpers) => {
+    const disposeReaction = reaction(
+      () => task.progress,
+      progress => task.isPending && helpers.reportProgress(progress!),
+      { fireImmediately: true }
+    );
+    try {
+      await task.invoke(arg, { signal: helpers.signal });
+    } finally {
+      disposeReaction();
+    }
+    if (helpers.isCanceled) return void 0 as any;
+    if (task.isError) throw task.error;
+    if (task.outcome === "canceled")
+      throw Error(`The task \`${task.name}\` was canceled.`);
+    return task.result as TResult;
+  };
+}
@@ -1,7 +1,20 @@
-import { observable, action, runInAction } from "mobx";
+import {
+  observable,
+  action,
+  computed,
+  runInAction,
+  ObservableMap
+} from "mobx";
 import State, { StateDevOptions } from "./State";
 import { Falsy } from "../utils/types";
-import Task, { TaskAction } from "./Task";
+import Task, {
+  TaskAction,
+  TaskHelpers,
+  TaskRetryOptions,
+  PendingIndicatorOptions
+} from "./Task";
+import { Clock, defaultClock } from "../utils/clock";
+import Poller, { PollingOptions } from "./Poller";
 import deepEqual from "../utils/deepEqual";
 
 /**
@@ -12,6 +25,12 @@ import deepEqual from "../utils/deepEqual";
  * arbitrary fetch query. The pending state of the fetch, the last successful
  * fetch query and result, as well as the data total statistics are available.
  *
+ * By default, fetched items are appended one fetch after another. In sparse
+ * mode (see [[DataQueryOptions.sparse]]), items are fetched as pages that can
+ * be loaded in any order, e.g. to jump to a page or to scroll up from a deep
+ * link, and [[items]] is the window of loaded pages around the most recently
+ * loaded one.
+ *
  * @template QueryType The type of the data fetch query, for instance,
  * search strings or filter crieteria.
  *
@@ -29,6 +48,11 @@ export default class DataQuery<
     readonly options: DataQueryOptions<QueryType, ItemType, ErrorType>
   ) {
     super(options);
+    if (options.sparse && !options.fetchLimit)
+      throw Error(
+        "A sparse data query requires a `fetchLimit`, which is used as the " +
+          "page size."
+      );
   }
 
   /**
@@ -40,20 +64,30 @@ export default class DataQuery<
    * @param fetchOptions.force
    *    If `force` is given, any pending fetch will be canceled
    *    and a new one started even if the given query is identical to that of the
-   *    pending fetch.
+   *    pending fetch. It also bypasses the query result cache.
    * @param fetchOptions.debounce
    *    If given, the fetch will be debounced by the specified number of
    *    milliseconds (and therefore may be overridden by subsequent fetches).
+   * @param fetchOptions.signal
+   *    If given, aborting the signal cancels the fetch.
+   * @param fetchOptions.page
+   *    In sparse mode, the page to start from. Defaults to the first page.
    */
   @action
   async fetch(
     query: QueryType,
-    fetchOptions?: { force?: true; debounce?: number }
+    fetchOptions?: {
+      force?: true;
+      debounce?: number;
+      signal?: AbortSignal;
+      page?: number;
+    }
   ) {
+    this.warnIfDisposed("fetch()");
     clearTimeout(this._debounceTimer);
     this._debounceTimer = 0;
 
-    const fetchTask = this._fetchTask;
+    const fetchTask = this.fetchTask;
     if (
       deepEqual(this._lastAttemptedQuery, query) &&
       !(fetchOptions && fetchOptions.force)
@@ -77,28 +111,59 @@ export default class DataQuery<
     const fetchLimit = options && options.fetchLimit;
     this._lastAttemptedQuery = query;
     this._isIncrementalFetch = false;
-    await fetchTask.invoke({
-      query,
-      limit: fetchLimit === void 0 ? Infinity : fetchLimit,
-      offset: 0,
-      append: false
-    });
+    this._isRestoredFromCache = false;
+    this._refreshTask.cancel();
+    if (options.sparse) {
+      this._pageTask.cancel();
+      this._pages.clear();
+      this._anchorPage = null;
+      await this._fetchPage(
+        (fetchOptions && fetchOptions.page) || 0,
+        fetchOptions && fetchOptions.signal
+      );
+      return;
+    }
+    this._discardPrefetched();
+    if (!(fetchOptions && fetchOptions.force) && this._restoreFromCache(query))
+      return;
+    await this._fetchTask.invoke(
+      {
+        query,
+        limit: fetchLimit === void 0 ? Infinity : fetchLimit,
+        offset: 0,
+        append: false
+      },
+      { signal: fetchOptions && fetchOptions.signal }
+    );
   }
 
   /**
    * Fetches more items using the current query. The fetch function configured
    * in [[DataQueryOptions]] will receive an offset that is the number of items
-   * currently.
+   * currently. With cursor pagination, it also receives the `nextCursor` of
+   * the previous fetch, and this method is no-op if there was none.
    *
    * The method can also be used for retrying a failed fetch of a new query. In
    * this case, the offset will be zero (rather than the count of the results
    * from a different query).
    *
+   * In sparse mode, this fetches the page that follows the loaded window.
+   *
    * This method is no-op if there has never been an attempted query.
    */
   @action
   async fetchMore() {
+    this.warnIfDisposed("fetchMore()");
     clearTimeout(this._debounceTimer);
+    if (this.options.sparse) {
+      const window = this._window;
+      const last = window[window.length - 1];
+      if (!last || last.isLast) return;
+      this._isIncrementalFetch = true;
+      await this.fetchPage(last.index + 1);
+      return;
+    }
+
     const fetchTask = this._fetchTask;
     if (fetchTask.isPending) return fetchTask.promise as Promise<void>;
     if (this._lastSuccessfulResult && this._lastSuccessfulResult.isDone) return;
@@ -107,23 +172,167 @@ export default class DataQuery<
     if (query === void 0) return;
 
     const isSameAsSuccessfulQuery = deepEqual(this._lastSuccessfulQuery, query);
+    const cursor =
+      isSameAsSuccessfulQuery && this._lastSuccessfulResult
+        ? this._lastSuccessfulResult.nextCursor
+        : void 0;
+    if (this._isCursorPagination && isSameAsSuccessfulQuery && cursor == null)
+      return;
+
     const { options } = this;
     const fetchLimit = options && options.fetchLimit;
     this._isIncrementalFetch = true;
+    this._isRestoredFromCache = false;
+    this._refreshTask.cancel();
     await fetchTask.invoke({
       query,
       limit: fetchLimit === void 0 ? Infinity : fetchLimit,
-      offset: isSameAsSuccessfulQuery ? this._items.length : 0,
+      offset: isSameAsSuccessfulQuery ? this._fetchedCount : 0,
+      cursor: this._isCursorPagination ? cursor : void 0,
       append: true
     });
   }
 
+  /**
+   * In sparse mode, fetches the page that precedes the loaded window. This is
+   * no-op if the window starts at the first page, or if the data query is not
+   * in sparse mode.
+   */
+  @action
+  async fetchPrevious() {
+    const first = this._window[0];
+    if (!first || first.index === 0) return;
+    this._isIncrementalFetch = true;
+    await this.fetchPage(first.index - 1);
+  }
+
+  /**
+   * In sparse mode, fetches the page with the specified index using the
+   * current query, e.g. to jump to that page. Once the page is loaded,
+   * [[items]] becomes the window of loaded pages around it. This is no-op if
+   * the page is already loaded or pending, if there has never been an
+   * attempted query, or if the data query is not in sparse mode.
+   * @param index The zero-based index of the page.
+   */
+  @action
+  async fetchPage(index: number) {
+    this.warnIfDisposed("fetchPage()");
+    if (!this.options.sparse || this._lastAttemptedQuery === void 0) return;
+    const page = this._pages.get(index);
+    if (page && page.status === "pending") return this._pageTask.promise!;
+    if (page && page.status === "loaded") return;
+    await this._fetchPage(index);
+  }
+
+  /**
+   * Returns the item of the [[items]] with the specified key, or undefined if
+   * there is no such item.
+   * @param key The key of the item, according to [[DataQueryOptions.itemKey]].
+   */
+  getItem(key: any): ItemType | undefined {
+    const { itemKey = identity } = this.options;
+    return this.items.find(item => deepEqual(itemKey(item), key));
+  }
+
+  /**
+   * Inserts an item into the [[items]] without fetching, e.g. after creating
+   * an entity. The [[totalItems]] grows accordingly if it is known.
+   * @param item
+   * @param index The position of the new item. Defaults to the start of the
+   * items.
+   */
+  @action
+  insertItem(item: ItemType, index = 0) {
+    this._assertNotSparse("insertItem()");
+    const items = [...this._items];
+    items.splice(Math.min(Math.max(index, 0), items.length), 0, item);
+    this._setLocalItems(items, 1);
+  }
+
+  /**
+   * Updates an item of the [[items]] without fetching, e.g. after editing an
+   * entity.
+   * @param key The key of the item, according to [[DataQueryOptions.itemKey]].
+   * @param patch The properties to change, or a function that returns the
+   * updated item.
+   * @returns true if the item was updated, false if there was no such item.
+   */
+  @action
+  updateItem(
+    key: any,
+    patch: Partial<ItemType> | ((item: ItemType) => ItemType)
+  ) {
+    this._assertNotSparse("updateItem()");
+    const index = this._indexOfKey(key);
+    if (index < 0) return false;
+
+    const items = [...this._items];
+    const item = items[index];
+    items[index] =
+      typeof patch === "function"
+        ? (patch as (item: ItemType) => ItemType)(item)
+        : Object.assign({}, item, patch);
+    this._setLocalItems(items, 0);
+    return true;
+  }
+
+  /**
+   * Removes an item from the [[items]] without fetching, e.g. after deleting
+   * an entity. The [[totalItems]] shrinks accordingly if it is known.
+   * @param key The key of the item, according to [[DataQueryOptions.itemKey]].
+   * @returns true if the item was removed, false if there was no such item.
+   */
+  @action
+  removeItem(key: any) {
+    this._assertNotSparse("removeItem()");
+    const index = this._indexOfKey(key);
+    if (index < 0) return false;
+
+    const items = [...this._items];
+    items.splice(index, 1);
+    this._setLocalItems(items, -1);
+    return true;
+  }
+
+  /**
+   * Applies local item changes right away, and rolls them back if the task
+   * that persists them does not succeed. For instance, an item can be removed
+   * while the delete request is pending.
+   *
+   * The changes are not rolled back if the items were fetched again in the
+   * meantime, since the fetched items are more recent.
+   * @param change Applies the changes, e.g. by calling [[removeItem]].
+   * @param task The task that persists the changes.
+   * @param args The argument to invoke the task with.
+   * @returns a promise that resolves once the task has settled and the
+   * changes are either kept or rolled back.
+   */
+  @action
+  async optimisticUpdate<TArg>(
+    change: () => void,
+    task: Task<TArg, any, any>,
+    args: TArg
+  ) {
+    const items = this._items;
+    const result = this._lastSuccessfulResult;
+    change();
+    const changedItems = this._items;
+
+    await task.invoke(args);
+    if (task.outcome === "success" || this._items !== changedItems) return;
+    runInAction(() => {
+      this._items = items;
+      this._lastSuccessfulResult = result;
+      this._storeInCache();
+    });
+  }
+
   /**
    * Cancel any on-going data fetch. This will cause the fetch to fail. If the
    * current fetch is a new query, the [[items]] will not clear.
    */
   cancel() {
-    return this._fetchTask && this._fetchTask.cancel();
+    return this.fetchTask && this.fetchTask.cancel();
   }
 
   /**
@@ -131,9 +340,59 @@ export default class DataQuery<
    * if no successful fetch has ever happened. Note that if the most recent
    * failed fetch is of a different query, this still holds data from the
    * successful fetch that may be from a different query.
+   *
+   * In sparse mode, this is the dense window of loaded pages around the most
+   * recently loaded page, starting at [[windowOffset]].
    */
   get items() {
-    return this._items;
+    return this.options.sparse ? this._windowItems : this._items;
+  }
+
+  /**
+   * Returns the offset of the first of the [[items]]. This is always zero
+   * unless the data query is in sparse mode.
+   */
+  get windowOffset() {
+    const first = this._window[0];
+    return first ? first.offset : 0;
+  }
+
+  /**
+   * In sparse mode, returns the loaded, pending and failed pages by their
+   * index. Evicted pages are removed. This is always empty unless the data
+   * query is in sparse mode.
+   */
+  get pages(): ReadonlyMap<number, DataQueryPage<ItemType>> {
+    return this._pages;
+  }
+
+  /**
+   * In sparse mode, returns the ranges of item offsets that are loaded, in
+   * order. Each range merges consecutive loaded pages.
+   */
+  @computed
+  get loadedRanges(): ReadonlyArray<DataQueryRange> {
+    const loaded = Array.from(this._pages.values())
+      .filter(page => page.status === "loaded")
+      .sort((a, b) => a.index - b.index);
+    return loaded.reduce<DataQueryRange[]>((ranges, page) => {
+      const last = ranges[ranges.length - 1];
+      const end = page.offset + page.items.length;
+      if (last && last.end === page.offset) {
+        return [...ranges.slice(0, -1), { start: last.start, end }];
+      }
+      return [...ranges, { start: page.offset, end }];
+    }, []);
+  }
+
+  /**
+   * Returns true if there are items before the loaded window, i.e. if
+   * [[fetchPrevious]] would fetch a page. This is always false unless the data
+   * query is in sparse mode.
+   */
+  get hasPreviousItems() {
+    const first = this._window[0];
+    return Boolean(first && first.index > 0);
   }
 
   /**
@@ -141,7 +400,10 @@ export default class DataQuery<
    * following:
    * - The most recent fetch returned `isDone`.
    * - The current number of items is the same as or exceeds the the most
-   *   recent `total` returned from a fetch.
+   *   recent `total` returned from a fetch. Fetched items that were merged
+   *   away as duplicates count too (see [[DataQueryOptions.duplicates]]).
+   * - With cursor pagination, the most recent fetch returned no `nextCursor`.
+   * - In sparse mode, the last page of the loaded window is the last page.
    *
    * If no successful fetch has ever happened with the last attempted query,
    * then this returns `null`.
@@ -154,17 +416,25 @@ export default class DataQuery<
     if (!result) return null;
     if (!deepEqual(this._lastAttemptedQuery, this._lastSuccessfulQuery))
       return null;
+    if (this.options.sparse) {
+      const window = this._window;
+      return window.length ? !window[window.length - 1].isLast : null;
+    }
     const { total, isDone } = result;
 
     if (isDone) return false;
-    if (total != null && total <= this._items.length) return false;
+    if (this._isCursorPagination) return result.nextCursor != null;
+    if (total != null && total <= this._fetchedCount) return false;
     return true;
   }
 
   /**
    * Returns the number of total items, once this is known. If the fetch function
    * returns either `isDone` or `total` (see [[FetchResultWithStats]]), the number will
-   * be respectively be the number of items so far, or the total number.
+   * be respectively be the number of items so far, or the total number. With
+   * cursor pagination, a fetch that returns no `nextCursor` also means that
+   * the number is the number of items so far. In sparse mode, the number is
+   * also known once the last page is loaded.
    *
    * In case the number is not known, this returns `null`.
    */
@@ -174,8 +444,16 @@ export default class DataQuery<
     if (!result) return null;
     const { total, isDone } = result;
 
+    if (this.options.sparse) {
+      if (typeof total === "number") return total;
+      const last = Array.from(this._pages.values()).find(page => page.isLast);
+      return last ? last.offset + last.items.length : null;
+    }
     if (isDone) return this._items.length;
-    if (typeof total === "number") return total;
+    if (typeof total === "number")
+      return Math.max(total - this._duplicateCount, this._items.length);
+    if (this._isCursorPagination && result.nextCursor == null)
+      return this._items.length;
     return null;
   }
 
@@ -183,7 +461,25 @@ export default class DataQuery<
    * Returns true if data fetch is currently happening.
    */
   get isFetching() {
-    return Boolean(this._fetchTask && this._fetchTask.isPending);
+    return Boolean(this.fetchTask && this.fetchTask.isPending);
+  }
+
+  /**
+   * Returns the task state that represents the data fetch. In sparse mode, this
+   * is the task that fetches the pages, whose invocations run in parallel.
+   */
+  get fetchTask(): Task<any, FetchResult<ItemType, ErrorType>, void> {
+    return this.options.sparse ? this._pageTask : this._fetchTask;
+  }
+
+  /**
+   * Returns true if a fetching indicator should be shown for the data query.
+   * This follows [[isFetching]], but delayed and held according to
+   * [[DataQueryOptions.pendingIndicator]].
+   * @see [[Task.isPendingVisible]]
+   */
+  get isFetchingVisible() {
+    return Boolean(this.fetchTask && this.fetchTask.isPendingVisible);
   }
 
   /**
@@ -220,42 +516,446 @@ export default class DataQuery<
   }
 
   /**
-   * Returns true if the last completed fetch encountered an error.
+   * Returns true if the last completed fetch encountered an error, including
+   * the fetch function throwing or rejecting.
    */
   get isError() {
+    const fetchTask = this.fetchTask;
     return Boolean(
-      this._fetchTask &&
-        (this._fetchTask.result === false ||
-          (this._fetchTask.result && "error" in this._fetchTask.result))
+      fetchTask &&
+        !this._isRestoredFromCache &&
+        (fetchTask.isError ||
+          fetchTask.result === false ||
+          (fetchTask.result && "error" in fetchTask.result))
     );
   }
 
   /**
-   * Returns the specific error value that the last fetch encountered. Note that
+   * Returns the specific error value that the last fetch encountered. If the
+   * fetch function threw or rejected, this is the thrown value. Note that
    * this may still be `null` if the fetch task simply returned `false` or the
    * user canceled the fetch.
    */
   get error() {
-    return this._fetchTask.result && "error" in this._fetchTask.result
-      ? this._fetchTask.result.error
+    const fetchTask = this.fetchTask;
+    if (this._isRestoredFromCache) return null;
+    if (fetchTask.isError) return fetchTask.error;
+    return fetchTask.result && "error" in fetchTask.result
+      ? fetchTask.result.error
       : null;
   }
 
   /**
    * Cancels any pending fetch, and restores the data query into the initial
-   * state. This forgets all of the previous results and queries.
+   * state. This forgets all of the previous results and queries, including
+   * the cached ones.
    */
   @action
   clear() {
     if (this._fetchTask) {
       this._fetchTask.cancel();
+      this._pageTask.cancel();
+      this._refreshTask.cancel();
+      this._discardPrefetched();
+      this._pages.clear();
+      this._anchorPage = null;
+      this._cache = [];
       this._items = [];
+      this._duplicateCount = 0;
+      this._isRestoredFromCache = false;
       this._lastAttemptedQuery = void 0;
       this._lastSuccessfulQuery = void 0;
       this._lastSuccessfulResult = void 0;
     }
   }
 
+  /**
+   * Re-fetches the active query while keeping the loaded depth: the items
+   * from offset zero up to the number of loaded items are fetched again, in
+   * chunks of `fetchLimit` items. The loaded items stay in place until every
+   * chunk has succeeded, and are then replaced at once. This is no-op if there
+   * is no active query or if a fetch is pending, and a fetch that starts
+   * cancels the refresh.
+   *
+   * In sparse mode, this re-fetches every loaded page instead, and replaces
+   * them at once when all of them have succeeded. The window stays where it
+   * is.
+   * @see [[isRefreshing]]
+   * @see [[refreshProgress]]
+   */
+  @action
+  async refresh() {
+    this.warnIfDisposed("refresh()");
+    const query = this._lastSuccessfulQuery;
+    if (query === void 0) return;
+
+    if (this.options.sparse) {
+      const pages = Array.from(this._pages.values())
+        .filter(page => page.status === "loaded")
+        .map(page => page.index)
+        .sort((a, b) => a - b);
+      if (!pages.length) return;
+      await this._refreshTask.invoke({ query, length: 0, pages });
+      return;
+    }
+
+    if (this._fetchTask.isPending) return;
+    await this._refreshTask.invoke({ query, length: this._fetchedCount });
+  }
+
+  /**
+   * Returns true if a [[refresh]] is pending. Unlike [[isFetching]], this
+   * does not concern fetches of new or more items.
+   */
+  get isRefreshing() {
+    return this._refreshTask.isPending;
+  }
+
+  /**
+   * Returns the progress of the pending [[refresh]] as the fraction of the
+   * items fetched so far, between 0 and 1. This is undefined if there is no
+   * pending refresh.
+   */
+  get refreshProgress() {
+    return this.isRefreshing ? this._refreshTask.progress : void 0;
+  }
+
+  /**
+   * Returns the task state that represents the refresh.
+   */
+  get refreshTask() {
+    return this._refreshTask;
+  }
+
+  /**
+   * Returns all of the task states that the data query runs: the fetch, the
+   * page fetches of sparse mode, the refresh and the prefetch. For instance,
+   * a [[TaskGroup]] cancels all of them.
+   */
+  get tasks(): ReadonlyArray<Task> {
+    return [
+      this._fetchTask,
+      this._pageTask,
+      this._refreshTask,
+      this._prefetchTask
+    ];
+  }
+
+  /**
+   * Starts refreshing the active query periodically. Every poll calls
+   * [[refresh]]. By default, a poll is skipped while a fetch or a refresh is
+   * pending.
+   * @param options Customizes the polling.
+   * @returns the started poller, which can be paused, resumed and stopped.
+   * Disposing the data query also disposes the poller.
+   */
+  @action
+  poll(options: PollingOptions) {
+    const poller = new Poller(
+      () => this.refresh(),
+      options,
+      () => this.isFetching || this.isRefreshing
+    );
+    this._pollers = [
+      ...this._pollers.filter(poller => !poller.isDisposed),
+      poller
+    ];
+    poller.start();
+    return poller;
+  }
+
+  /**
+   * Disposes the data query. Any pending or debounced fetch is canceled, and
+   * the data query's pollers are disposed.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._pollers.forEach(poller => poller.dispose());
+    clearTimeout(this._debounceTimer);
+    this._debounceTimer = 0;
+    this._fetchTask.dispose();
+    this._pageTask.dispose();
+    this._refreshTask.dispose();
+    this._prefetchTask.dispose();
+    super.dispose();
+  }
+
+  private _assertNotSparse(usage: string) {
+    if (this.options.sparse)
+      throw Error(
+        `Attempted to call ${usage} on data query \`${
+          this.name
+        }\` but local item changes are not supported in sparse mode.`
+      );
+  }
+
+  private _indexOfKey(key: any) {
+    const { itemKey = identity } = this.options;
+    return this._items.findIndex(item => deepEqual(itemKey(item), key));
+  }
+
+  /**
+   * Replaces the items with locally changed items, adjusting the known total
+   * by the number of added or removed items.
+   */
+  @action
+  private _setLocalItems(items: ItemType[], totalChange: number) {
+    const result = this._lastSuccessfulResult;
+    this._items = items;
+    if (result && typeof result.total === "number") {
+      this._lastSuccessfulResult = {
+        ...result,
+        total: Math.max(result.total + totalChange, 0)
+      };
+    }
+    this._storeInCache();
+  }
+
+  /**
+   * Sets the items to the fetched items appended to the specified items,
+   * merging duplicates according to [[DataQueryOptions.duplicates]], and
+   * keeps count of the fetched items that were merged away.
+   */
+  @action
+  private _setFetchedItems(
+    items: ReadonlyArray<ItemType>,
+    fetched: ReadonlyArray<ItemType>,
+    duplicateCount: number
+  ) {
+    const { duplicates, itemKey = identity } = this.options;
+    const merged = duplicates
+      ? mergeItems(items, fetched, itemKey, duplicates)
+      : [...items, ...fetched];
+    this._items = merged;
+    this._duplicateCount =
+      duplicateCount + items.length + fetched.length - merged.length;
+  }
+
+  /**
+   * Returns the number of items fetched with the successful query so far,
+   * including the ones merged away as duplicates, which is where the next
+   * fetch continues from.
+   */
+  private get _fetchedCount() {
+    return this._items.length + this._duplicateCount;
+  }
+
+  /**
+   * Restores the items and stats of a query from the cache, if there is a
+   * fresh entry for it, and refreshes them in the background if configured.
+   * @returns false if there was no such entry.
+   */
+  @action
+  private _restoreFromCache(query: QueryType) {
+    const cache = this.options.cache;
+    if (!cache) return false;
+
+    const { ttl = Infinity, refresh = false } = cache;
+    const now = (this.options.clock || defaultClock).now();
+    this._cache = this._cache.filter(entry => now - entry.storedAt < ttl);
+    const entry = this._cache.find(entry => deepEqual(entry.query, query));
+    if (!entry) return false;
+
+    this._fetchTask.cancel();
+    this._cache = [...this._cache.filter(item => item !== entry), entry];
+    this._items = entry.items;
+    this._duplicateCount = entry.duplicateCount;
+    this._lastSuccessfulResult = entry.result;
+    this._lastSuccessfulQuery = query;
+    this._isRestoredFromCache = true;
+    refresh && this.refresh();
+    return true;
+  }
+
+  /**
+   * Stores the items and stats of the active query in the cache, evicting the
+   * least recently used entries over the limit.
+   */
+  private _storeInCache() {
+    const cache = this.options.cache;
+    const query = this._lastSuccessfulQuery;
+    const result = this._lastSuccessfulResult;
+    if (!cache || query === void 0 || !result) return;
+
+    const { maxEntries = 20 } = cache;
+    this._cache = [
+      ...this._cache.filter(entry => !deepEqual(entry.query, query)),
+      {
+        query,
+        items: this._items,
+        duplicateCount: this._duplicateCount,
+        result,
+        storedAt: (this.options.clock || defaultClock).now()
+      }
+    ].slice(-maxEntries);
+  }
+
+  /**
+   * Fetches a page of the last attempted query, regardless of whether it is
+   * already loaded. A loaded page keeps its items until the fetch succeeds.
+   */
+  @action
+  private _fetchPage(index: number, signal?: AbortSignal) {
+    const pageSize = this.options.fetchLimit!;
+    return this._pageTask.invoke(
+      {
+        query: this._lastAttemptedQuery!,
+        page: index,
+        offset: index * pageSize,
+        limit: pageSize
+      },
+      { signal }
+    );
+  }
+
+  /**
+   * Re-fetches the specified pages one after another for a [[refresh]] in
+   * sparse mode. Once all of them have succeeded, they replace the loaded
+   * pages at once, unless the query has changed in the meantime.
+   */
+  private async _refreshPages(
+    query: QueryType,
+    indices: number[],
+    helpers: TaskHelpers<number>,
+    fetchHelpers: TaskHelpers<void>
+  ): Promise<FetchResult<ItemType, ErrorType>> {
+    const pageSize = this.options.fetchLimit!;
+    const fetched: DataQueryPage<ItemType>[] = [];
+    let stats: FetchResultWithStats<ItemType> = { items: [] };
+    for (const index of indices) {
+      const offset = index * pageSize;
+      const result = await this.options.fetch(
+        { query, offset, limit: pageSize },
+        fetchHelpers
+      );
+      if (helpers.isCanceled) return result;
+      if (!result || "error" in result) return result;
+
+      const items = Array.isArray(result) ? result : result.items;
+      stats = Array.isArray(result) ? { items } : result;
+      fetched.push({
+        index,
+        offset,
+        status: "loaded",
+        items,
+        isLast: isLastPage(stats, offset, pageSize)
+      });
+      helpers.reportProgress(fetched.length / indices.length);
+    }
+
+    runInAction(() => {
+      if (!deepEqual(this._lastSuccessfulQuery, query)) return;
+      fetched.forEach(page => this._setPage(page));
+      this._lastSuccessfulResult = stats;
+    });
+    return stats;
+  }
+
+  /**
+   * Returns the consecutive loaded pages around the anchor page.
+   */
+  @computed
+  private get _window() {
+    const window: DataQueryPage<ItemType>[] = [];
+    const anchor = this._anchorPage;
+    if (anchor === null) return window;
+
+    const getLoaded = (index: number) => {
+      const page = this._pages.get(index);
+      return page && page.status === "loaded" ? page : null;
+    };
+    let start = anchor;
+    while (start > 0 && getLoaded(start - 1)) start--;
+    for (let page = getLoaded(start); page; page = getLoaded(page.index + 1)) {
+      window.push(page);
+      if (page.isLast) break;
+    }
+    return window;
+  }
+
+  @computed
+  private get _windowItems() {
+    return ([] as ItemType[]).concat(...this._window.map(page => page.items));
+  }
+
+  @action
+  private _setPage(page: DataQueryPage<ItemType>) {
+    this._pages.set(page.index, page);
+  }
+
+  /**
+   * Evicts the loaded pages that are farthest from the anchor page, so that
+   * no more than [[DataQuerySparseOptions.maxPages]] pages are loaded.
+   */
+  @action
+  private _evictPages() {
+    const { maxPages = Infinity } = this.options.sparse || {};
+    const anchor = this._anchorPage || 0;
+    const loaded = Array.from(this._pages.values())
+      .filter(page => page.status === "loaded")
+      .sort(
+        (a, b) => Math.abs(b.index - anchor) - Math.abs(a.index - anchor)
+      );
+    loaded
+      .slice(0, Math.max(loaded.length - maxPages, 0))
+      .forEach(page => this._pages.delete(page.index));
+  }
+
+  /**
+   * Starts fetching the items that the next [[fetchMore]] would fetch, and
+   * holds them in the prefetch buffer.
+   */
+  @action
+  private _prefetch() {
+    this._discardPrefetched();
+    if (!this.hasMoreItems) return;
+
+    const { fetchLimit } = this.options;
+    const result = this._lastSuccessfulResult;
+    const fetchQuery: FetchQuery<QueryType> = {
+      query: this._lastSuccessfulQuery!,
+      limit: fetchLimit === void 0 ? Infinity : fetchLimit,
+      offset: this._fetchedCount,
+      cursor:
+        this._isCursorPagination && result ? result.nextCursor : void 0
+    };
+    const prefetchTask = this._prefetchTask;
+    const promise = prefetchTask
+      .invoke(fetchQuery)
+      .then(() =>
+        prefetchTask.outcome === "success" ? prefetchTask.result : false
+      );
+    this._prefetched = { fetchQuery, promise };
+  }
+
+  /**
+   * Takes the prefetched result out of the buffer if it was prefetched for
+   * the specified fetch query.
+   */
+  private _takePrefetched(q: FetchQuery<QueryType>) {
+    const prefetched = this._prefetched;
+    const { query, offset, limit, cursor } = q;
+    if (
+      !prefetched ||
+      !deepEqual(prefetched.fetchQuery, { query, offset, limit, cursor })
+    )
+      return null;
+    this._prefetched = null;
+    return prefetched.promise;
+  }
+
+  private _discardPrefetched() {
+    this._prefetched = null;
+    this._prefetchTask.cancel();
+  }
+
+  private get _isCursorPagination() {
+    return this.options.pagination === "cursor";
+  }
+
+  private _pollers: Poller[] = [];
+
   @observable.ref
   private _debounceTimer: number = 0;
 
@@ -268,23 +968,206 @@ export default class DataQuery<
   @observable.ref
   private _isIncrementalFetch: boolean = false;
 
+  private _cache: DataQueryCacheEntry<QueryType, ItemType>[] = [];
+
+  /**
+   * Whether the current items were restored from the cache, so that the
+   * outcome of the previous fetch no longer applies to them.
+   */
+  @observable.ref
+  private _isRestoredFromCache = false;
+
+  /**
+   * The number of fetched items of the successful query that were merged
+   * away as duplicates.
+   */
+  @observable
+  private _duplicateCount = 0;
+
+  private _prefetched: {
+    fetchQuery: FetchQuery<QueryType>;
+    promise: Promise<FetchResult<ItemType, ErrorType>>;
+  } | null = null;
+
+  private _pages: ObservableMap<
+    number,
+    DataQueryPage<ItemType>
+  > = observable.map({}, { deep: false });
+
+  @observable.ref
+  private _anchorPage: number | null = null;
+
   @observable.ref
   private _lastSuccessfulQuery?: QueryType;
   private _lastSuccessfulResult?: FetchResultWithStats<ItemType>;
   private _fetchTask = new Task(
     async (q: FetchQuery<QueryType> & { append: boolean }, helpers) => {
-      const result = await this.options.fetch(q, helpers);
+      const prefetched = q.append && this._takePrefetched(q);
+      if (prefetched) helpers.onCancel(() => this._prefetchTask.cancel());
+      const prefetchedResult = prefetched && (await prefetched);
+      const result =
+        prefetchedResult && !("error" in prefetchedResult)
+          ? prefetchedResult
+          : await this.options.fetch(q, helpers);
       if (result && !("error" in result) && !helpers.isCanceled) {
         runInAction(() => {
           const items = Array.isArray(result) ? result : result.items;
-          this._items = q.append ? [...this._items, ...items] : items;
+          this._setFetchedItems(
+            q.append ? this._items : [],
+            items,
+            q.append ? this._duplicateCount : 0
+          );
           this._lastSuccessfulResult = Array.isArray(result)
             ? { items }
             : result;
           this._lastSuccessfulQuery = q.query;
+          this._storeInCache();
+          this.options.prefetch && this._prefetch();
         });
       }
       return result || false;
+    },
+    {
+      retry: this.options.retry,
+      timeout: this.options.timeout,
+      clock: this.options.clock,
+      pendingIndicator: this.options.pendingIndicator
+    }
+  );
+  private _prefetchTask = new Task(
+    (q: FetchQuery<QueryType>, helpers: TaskHelpers<void>) =>
+      this.options.fetch(q, helpers),
+    { timeout: this.options.timeout, clock: this.options.clock }
+  );
+  private _refreshTask = new Task(
+    async (
+      {
+        query,
+        length,
+        pages
+      }: { query: QueryType; length: number; pages?: number[] },
+      helpers: TaskHelpers<number>
+    ): Promise<FetchResult<ItemType, ErrorType>> => {
+      const fetchHelpers: TaskHelpers<void> = {
+        onCancel: helpers.onCancel,
+        get isCanceled() {
+          return helpers.isCanceled;
+        },
+        get signal() {
+          return helpers.signal;
+        },
+        reportProgress: () => {}
+      };
+      if (pages) return this._refreshPages(query, pages, helpers, fetchHelpers);
+
+      const { fetchLimit = Infinity } = this.options;
+      const target = length || fetchLimit;
+      const items: ItemType[] = [];
+      let stats: FetchResultWithStats<ItemType> = { items };
+      while (items.length < target) {
+        const limit = Math.min(fetchLimit, target - items.length);
+        const result = await this.options.fetch(
+          {
+            query,
+            offset: items.length,
+            limit,
+            cursor: this._isCursorPagination ? stats.nextCursor : void 0
+          },
+          fetchHelpers
+        );
+        if (helpers.isCanceled) return result;
+        if (!result || "error" in result) return result;
+
+        const chunk = Array.isArray(result) ? result : result.items;
+        items.push(...chunk);
+        stats = Array.isArray(result) ? { items: chunk } : result;
+        helpers.reportProgress(Math.min(items.length / target, 1));
+        if (
+          chunk.length < limit ||
+          stats.isDone ||
+          (this._isCursorPagination && stats.nextCursor == null)
+        )
+          break;
+      }
+
+      runInAction(() => {
+        if (!deepEqual(this._lastSuccessfulQuery, query)) return;
+        this._setFetchedItems([], items, 0);
+        this._lastSuccessfulResult = { ...stats, items };
+        this._discardPrefetched();
+        this._storeInCache();
+      });
+      return stats;
+    },
+    {
+      initialProgress: 0,
+      retry: this.options.retry,
+      timeout: this.options.timeout,
+      clock: this.options.clock
+    }
+  );
+  private _pageTask = new Task(
+    async (q: FetchQuery<QueryType> & { page: number }, helpers) => {
+      const { page: index, offset } = q;
+      const setStatus = (status: "pending" | "error", error?: any) => {
+        const page = this._pages.get(index);
+        (!page || page.status !== "loaded") &&
+          this._setPage({
+            index,
+            offset,
+            status,
+            items: [],
+            isLast: false,
+            error
+          });
+      };
+      setStatus("pending");
+      helpers.onCancel(
+        action(() => {
+          const page = this._pages.get(index);
+          page && page.status === "pending" && this._pages.delete(index);
+        })
+      );
+
+      let result: FetchResult<ItemType, ErrorType>;
+      try {
+        result = await this.options.fetch(
+          { query: q.query, offset, limit: q.limit },
+          helpers
+        );
+      } catch (error) {
+        helpers.isCanceled || runInAction(() => setStatus("error", error));
+        throw error;
+      }
+      if (helpers.isCanceled) return result || false;
+
+      runInAction(() => {
+        if (!result || "error" in result) {
+          setStatus("error", result ? result.error : void 0);
+          return;
+        }
+        const items = Array.isArray(result) ? result : result.items;
+        const stats = Array.isArray(result) ? { items } : result;
+        this._setPage({
+          index,
+          offset,
+          status: "loaded",
+          items,
+          isLast: isLastPage(stats, offset, q.limit)
+        });
+        this._lastSuccessfulResult = stats;
+        this._lastSuccessfulQuery = q.query;
+        this._anchorPage = index;
+        this._evictPages();
+      });
+      return result;
+    },
+    {
+      concurrency: "parallel",
+      retry: this.options.retry,
+      timeout: this.options.timeout,
+      clock: this.options.clock,
+      pendingIndicator: this.options.pendingIndicator
     }
   );
 }
@@ -309,7 +1192,7 @@ export interface DataQueryOptions<QueryType, ItemType, ErrorType = any>
    */
   fetch: TaskAction<
     FetchQuery<QueryType>,
-    FetchResultWithStats<ItemType> | ItemType[] | Falsy | { error: ErrorType },
+    FetchResult<ItemType, ErrorType>,
     void
   >;
 
@@ -319,8 +1202,206 @@ export interface DataQueryOptions<QueryType, ItemType, ErrorType = any>
    * [[fetchMore]].
    */
   fetchLimit?: number;
+
+  /**
+   * Specifies how [[DataQuery.fetchMore]] tells the fetch function where to
+   * continue. Defaults to `offset`.
+   * @see [[DataQueryPagination]]
+   */
+  pagination?: DataQueryPagination;
+
+  /**
+   * Computes the key that identifies an item, e.g. its ID. Keys are compared
+   * with [[deepEqual]]. Defaults to the item itself.
+   * @see [[DataQuery.updateItem]]
+   */
+  itemKey?: (item: ItemType) => any;
+
+  /**
+   * If specified, fetched items whose key (see [[itemKey]]) is already among
+   * the items are merged according to this policy instead of being appended
+   * again, e.g. when items shift between pages on the server. Duplicates are
+   * counted, so that [[DataQuery.fetchMore]] still continues after the last
+   * fetched item, and [[DataQuery.totalItems]] leaves them out. Does not apply
+   * in sparse mode.
+   * @see [[DataQueryDuplicatePolicy]]
+   */
+  duplicates?: DataQueryDuplicatePolicy;
+
+  /**
+   * If specified, the data query is in sparse mode: items are fetched as pages
+   * of `fetchLimit` items that can be loaded in any order. Sparse mode always
+   * paginates by offset.
+   * @see [[DataQuerySparseOptions]]
+   */
+  sparse?: DataQuerySparseOptions;
+
+  /**
+   * If specified, the items and stats of recent queries are cached, so that
+   * fetching a cached query again restores them immediately instead of
+   * fetching from offset zero. This does not apply in sparse mode.
+   * @see [[DataQueryCacheOptions]]
+   */
+  cache?: DataQueryCacheOptions;
+
+  /**
+   * If true, the items that the next [[DataQuery.fetchMore]] would fetch are
+   * fetched in the background after every successful fetch, so that
+   * `fetchMore` resolves right away from the prefetched items. The prefetch
+   * does not count as fetching, a failed prefetch is ignored, and the
+   * prefetched items are discarded when a different query is fetched or the
+   * data query is cleared. This does not apply in sparse mode.
+   */
+  prefetch?: boolean;
+
+  /**
+   * If specified, a failed fetch is retried according to these options.
+   * @see [[TaskOptions.retry]]
+   */
+  retry?: TaskRetryOptions;
+
+  /**
+   * If specified, a fetch attempt that does not complete within this many
+   * milliseconds is canceled and fails.
+   * @see [[TaskOptions.timeout]]
+   */
+  timeout?: number;
+
+  /**
+   * Specifies the clock used for timeouts, retry backoff and the pending
+   * indicator. Defaults to the global timers.
+   */
+  clock?: Clock;
+
+  /**
+   * If specified, [[DataQuery.isFetchingVisible]] is delayed and held
+   * according to these options.
+   */
+  pendingIndicator?: PendingIndicatorOptions;
+}
+
+/**
+ * Describes what the fetch function of a [[DataQuery]] may resolve to.
+ * @ignore
+ */
+export type FetchResult<ItemType, ErrorType> =
+  | FetchResultWithStats<ItemType>
+  | ItemType[]
+  | Falsy
+  | { error: ErrorType };
+
+/**
+ * Specifies how a [[DataQuery]] caches the results of its queries.
+ */
+export interface DataQueryCacheOptions {
+  /**
+   * The maximum number of cached queries. When exceeded, the least recently
+   * used queries are evicted. Defaults to 20.
+   */
+  maxEntries?: number;
+
+  /**
+   * The number of milliseconds that a cached query may be restored for.
+   * Defaults to no limit.
+   */
+  ttl?: number;
+
+  /**
+   * If true, a restored query is re-fetched in the background, and its items
+   * stay in place until the re-fetch succeeds. Defaults to false.
+   */
+  refresh?: boolean;
+}
+
+/**
+ * Describes a cached query of a [[DataQuery]].
+ */
+interface DataQueryCacheEntry<QueryType, ItemType> {
+  query: QueryType;
+  items: ItemType[];
+  duplicateCount: number;
+  result: FetchResultWithStats<ItemType>;
+  storedAt: number;
+}
+
+/**
+ * Specifies how a [[DataQuery]] in sparse mode keeps its pages.
+ */
+export interface DataQuerySparseOptions {
+  /**
+   * The maximum number of loaded pages. When exceeded, the pages farthest from
+   * the most recently loaded page are evicted. Defaults to no limit.
+   */
+  maxPages?: number;
 }
 
+/**
+ * Describes a page of a [[DataQuery]] in sparse mode.
+ * @template ItemType see [[DataQuery]]
+ */
+export interface DataQueryPage<ItemType> {
+  /**
+   * The zero-based index of the page.
+   */
+  readonly index: number;
+
+  /**
+   * The offset of the page's first item.
+   */
+  readonly offset: number;
+
+  /**
+   * Whether the page is being fetched, has been loaded or failed to load. A
+   * loaded page stays loaded while it is being re-fetched.
+   */
+  readonly status: "pending" | "loaded" | "error";
+
+  /**
+   * The items of the page. This is empty unless the page is loaded.
+   */
+  readonly items: ReadonlyArray<ItemType>;
+
+  /**
+   * True if the page is known to be the last page.
+   */
+  readonly isLast: boolean;
+
+  /**
+   * The error that the page failed to load with, if any.
+   */
+  readonly error?: any;
+}
+
+/**
+ * Describes a range of item offsets, from `start` inclusive to `end`
+ * exclusive.
+ */
+export interface DataQueryRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Describes how a [[DataQuery]] paginates its incremental fetches.
+ * - `offset`: the fetch function continues from [[FetchQuery.offset]], and
+ *   there are more items until the fetch returns `isDone` or the `total` is
+ *   reached.
+ * - `cursor`: the fetch function continues from [[FetchQuery.cursor]], which
+ *   is the `nextCursor` returned by the previous fetch, and there are more
+ *   items as long as a fetch returns a `nextCursor`.
+ */
+export type DataQueryPagination = "offset" | "cursor";
+
+/**
+ * Describes how a [[DataQuery]] merges a fetched item whose key is already
+ * among its items.
+ * - `skip`: the item already present is kept, and the fetched one is ignored.
+ * - `replace`: the fetched item replaces the one already present, in place.
+ * - `move`: the item already present is removed, and the fetched one is
+ *   appended.
+ */
+export type DataQueryDuplicatePolicy = "skip" | "replace" | "move";
+
 /**
  * Describes the query information that is sent to the fetch function.
  * @template [[QueryType]] see [[DataQuery]]
@@ -347,6 +1428,14 @@ export interface FetchQuery<QueryType> {
    * to query too many at once.
    */
   limit: number;
+
+  /**
+   * With cursor pagination, the `nextCursor` returned by the previous fetch
+   * of the same query. This is only given to incremental fetches, i.e. it is
+   * undefined when fetching the first items.
+   * @see [[DataQueryPagination]]
+   */
+  cursor?: any;
 }
 
 /**
@@ -377,4 +1466,59 @@ export interface FetchResultWithStats<ItemType> {
    * as the value of [[DataQuery.totalItems]].
    */
   total?: number;
+
+  /**
+   * With cursor pagination, the opaque cursor from which the next fetch
+   * should continue. If absent, there are no more items to fetch.
+   * @see [[DataQueryPagination]]
+   */
+  nextCursor?: any;
+}
+
+/**
+ * Returns true if the fetched page at the specified offset is the last one.
+ */
+function isLastPage(
+  stats: FetchResultWithStats<any>,
+  offset: number,
+  limit: number
+) {
+  const { items, total } = stats;
+  return Boolean(
+    stats.isDone ||
+      items.length < limit ||
+      (total != null && offset + items.length >= total)
+  );
+}
+
+function identity<T>(value: T) {
+  return value;
+}
+
+/**
+ * Appends items to other items, merging the items whose key is already
+ * present according to the policy. Duplicates among the appended items are
+ * merged too.
+ */
+function mergeItems<T>(
+  items: ReadonlyArray<T>,
+  added: ReadonlyArray<T>,
+  itemKey: (item: T) => any,
+  policy: DataQueryDuplicatePolicy
+) {
+  const result = [...items];
+  const keys = result.map(itemKey);
+  added.forEach(item => {
+    const key = itemKey(item);
+    const index = keys.findIndex(other => deepEqual(other, key));
+    if (index >= 0 && policy === "replace") result[index] = item;
+    if (index >= 0 && policy !== "move") return;
+    if (index >= 0) {
+      result.splice(index, 1);
+      keys.splice(index, 1);
+    }
+    result.push(item);
+    keys.push(key);
+  });
+  return result;
 }
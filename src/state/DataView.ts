@@ -0,0 +1,244 @@
+import { computed, untracked } from "mobx";
+import State, { StateDevOptions } from "./State";
+import DataQuery from "./DataQuery";
+import { MaybeConstant, Falsy } from "../utils/types";
+
+/**
+ * Represents a client-side view over fetched items, such as the items of a
+ * [[DataQuery]] filtered by a search box, sorted by a column and grouped by a
+ * category, without fetching again.
+ *
+ * The view's criteria are given as functions that return the actual filter,
+ * comparator and grouping functions. These are re-evaluated whenever the
+ * observables they read change, and the view is then recomputed. For instance,
+ * a filter can depend on the value of a search input:
+ * `filter: () => { const text = search.value; return item => ...; }`.
+ *
+ * When the items are only appended to, e.g. by [[DataQuery.fetchMore]], only
+ * the appended items are filtered and merged into the sorted items. This
+ * relies on the criteria staying memoized, i.e. on the view being observed,
+ * e.g. by a rendering component.
+ *
+ * @template ItemType the type of the items
+ * @template GroupKey the type of the group keys
+ */
+export default class DataView<ItemType = any, GroupKey = any> extends State {
+  /**
+   * Instantiates a data view.
+   * @param source The data query whose items to view, or the items themselves.
+   * This may be an array of items (e.g. an observable array) or a function
+   * returning such an array, which is re-evaluated whenever the observables
+   * it depends on change.
+   * @param options
+   */
+  constructor(
+    source:
+      | DataQuery<any, ItemType>
+      | MaybeConstant<() => ReadonlyArray<ItemType>>,
+    readonly options: DataViewOptions<ItemType, GroupKey> = {}
+  ) {
+    super(options);
+    this._source = source;
+  }
+
+  /**
+   * Returns the items that pass the filter, in sorted order.
+   */
+  @computed
+  get items(): ReadonlyArray<ItemType> {
+    const source = this._sourceItems;
+    const filter = this._filter;
+    const compare = this._compare;
+    return untracked(() => {
+      const memo = this._memo;
+      let items: ItemType[];
+      if (
+        memo &&
+        memo.filter === filter &&
+        memo.compare === compare &&
+        isPrefix(memo.source, source)
+      ) {
+        const added = applyCriteria(
+          source.slice(memo.source.length),
+          filter,
+          compare
+        );
+        items = compare
+          ? mergeSorted(memo.items, added, compare)
+          : [...memo.items, ...added];
+      } else {
+        items = applyCriteria(source.slice(), filter, compare);
+      }
+      this._memo = { source, filter, compare, items };
+      return items;
+    });
+  }
+
+  /**
+   * Returns the number of items that pass the filter.
+   */
+  get count() {
+    return this.items.length;
+  }
+
+  /**
+   * Returns the items grouped by their group key, in the order in which each
+   * group first appears among the [[items]]. This is empty unless
+   * [[DataViewOptions.groupBy]] is specified.
+   */
+  @computed
+  get groups(): ReadonlyArray<DataViewGroup<ItemType, GroupKey>> {
+    const groupBy = this._groupBy;
+    if (!groupBy) return [];
+
+    const items = this.items;
+    return untracked(() => {
+      const groups = new Map<GroupKey, ItemType[]>();
+      items.forEach(item => {
+        const key = groupBy(item);
+        const group = groups.get(key);
+        group ? group.push(item) : groups.set(key, [item]);
+      });
+      return Array.from(groups, ([key, items]) => ({ key, items }));
+    });
+  }
+
+  /**
+   * Returns true if the view might be missing items because the data query
+   * has more items to fetch. This is always false if the view is not over a
+   * data query.
+   */
+  get isPossiblyIncomplete() {
+    const source = this._source;
+    return source instanceof DataQuery && Boolean(source.hasMoreItems);
+  }
+
+  private _source:
+    | DataQuery<any, ItemType>
+    | MaybeConstant<() => ReadonlyArray<ItemType>>;
+
+  /**
+   * The result of the last computation of the items, which the next
+   * computation builds on if the source items were only appended to.
+   */
+  private _memo: DataViewMemo<ItemType> | null = null;
+
+  @computed
+  private get _sourceItems(): ReadonlyArray<ItemType> {
+    const source = this._source;
+    if (source instanceof DataQuery) return source.items;
+    return typeof source === "function" ? source() : source;
+  }
+
+  @computed
+  private get _filter() {
+    const { filter } = this.options;
+    return (filter && filter()) || null;
+  }
+
+  @computed
+  private get _compare() {
+    const { sort } = this.options;
+    return (sort && sort()) || null;
+  }
+
+  @computed
+  private get _groupBy() {
+    const { groupBy } = this.options;
+    return (groupBy && groupBy()) || null;
+  }
+}
+
+/**
+ * Describes a group of items of a [[DataView]].
+ * @template ItemType see [[DataView]]
+ * @template GroupKey see [[DataView]]
+ */
+export interface DataViewGroup<ItemType, GroupKey> {
+  /**
+   * The key shared by the items of the group.
+   */
+  readonly key: GroupKey;
+
+  /**
+   * The items of the group, in sorted order.
+   */
+  readonly items: ReadonlyArray<ItemType>;
+}
+
+/**
+ * Specifies the criteria of a data view. Each criterion is a function that
+ * returns the actual filter, comparator or grouping function (or a falsy value
+ * for none). It is re-evaluated whenever the observables it reads change,
+ * while the function it returns is not tracked.
+ * @template ItemType see [[DataView]]
+ * @template GroupKey see [[DataView]]
+ */
+export interface DataViewOptions<ItemType, GroupKey> extends StateDevOptions {
+  /**
+   * Returns the function that decides whether an item is in the view.
+   */
+  filter?: () => ((item: ItemType) => boolean) | Falsy;
+
+  /**
+   * Returns the function that compares two items for sorting, as in
+   * `Array.prototype.sort`. Items that compare equal keep their order.
+   */
+  sort?: () => ((a: ItemType, b: ItemType) => number) | Falsy;
+
+  /**
+   * Returns the function that computes the group key of an item.
+   */
+  groupBy?: () => ((item: ItemType) => GroupKey) | Falsy;
+}
+
+interface DataViewMemo<ItemType> {
+  source: ReadonlyArray<ItemType>;
+  filter: ((item: ItemType) => boolean) | null;
+  compare: ((a: ItemType, b: ItemType) => number) | null;
+  items: ItemType[];
+}
+
+/**
+ * Returns true if the items of `prefix` are the first items of `array`.
+ */
+function isPrefix<T>(prefix: ReadonlyArray<T>, array: ReadonlyArray<T>) {
+  if (prefix === array) return true;
+  if (prefix.length > array.length) return false;
+  return prefix.every((item, index) => item === array[index]);
+}
+
+/**
+ * Filters and sorts items.
+ */
+function applyCriteria<T>(
+  items: T[],
+  filter: ((item: T) => boolean) | null,
+  compare: ((a: T, b: T) => number) | null
+) {
+  const result = filter ? items.filter(filter) : items;
+  return compare ? stableSort(result, compare) : result;
+}
+
+/**
+ * Sorts items into a new array, keeping the order of items that compare equal.
+ */
+function stableSort<T>(items: T[], compare: (a: T, b: T) => number) {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => compare(a.item, b.item) || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Merges two sorted arrays. On ties, items of `a` come first.
+ */
+function mergeSorted<T>(a: T[], b: T[], compare: (a: T, b: T) => number) {
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    result.push(compare(b[j], a[i]) < 0 ? b[j++] : a[i++]);
+  }
+  return result.concat(a.slice(i), b.slice(j));
+}
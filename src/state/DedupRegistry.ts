@@ -0,0 +1,134 @@
+import { MaybePromise } from "../utils/types";
+import Disposer from "../utils/disposer";
+import deepEqual from "../utils/deepEqual";
+import { TaskHelpers } from "./Task";
+
+/**
+ * Shares in-flight work between task invocations that do the same thing, even
+ * across task instances, such as several validators looking up whether the
+ * same username is taken.
+ *
+ * Work is identified by a key, compared with [[deepEqual]]. While work for a
+ * key is in flight, running work with the same key subscribes to it instead
+ * of starting it again, and every subscriber receives the same result and the
+ * same progress reports.
+ *
+ * Cancellation is reference-counted: a subscriber that cancels only stops
+ * waiting, and the work itself is canceled once all of its subscribers have
+ * canceled.
+ *
+ * Tasks opt in with [[TaskOptions.dedup]]. Unless specified otherwise, they
+ * share the [[defaultDedupRegistry]].
+ */
+export default class DedupRegistry {
+  /**
+   * Returns the number of keys that have work in flight.
+   */
+  get size() {
+    return this._entries.length;
+  }
+
+  /**
+   * Returns true if work with the specified key is in flight.
+   * @param key
+   */
+  isInFlight(key: any) {
+    return this._find(key) !== null;
+  }
+
+  /**
+   * Runs the work for the specified key, or subscribes to the work already in
+   * flight for that key.
+   * @param key Identifies the work. Keys should be specific enough not to
+   * clash across unrelated tasks, e.g. `["username-taken", username]`.
+   * @param work Starts the work. It receives its own task helpers, which are
+   * canceled only once every subscriber has canceled.
+   * @param helpers The subscriber's task helpers. Canceling the subscriber
+   * unsubscribes it, and the work's progress is reported to it.
+   * @returns the work's result.
+   */
+  run<TResult, TProgress>(
+    key: any,
+    work: (helpers: TaskHelpers<TProgress>) => MaybePromise<TResult>,
+    helpers: TaskHelpers<TProgress>
+  ): MaybePromise<TResult> {
+    let entry = this._find(key);
+    if (!entry) {
+      const disposer = new Disposer();
+      const subscribers = [helpers];
+      let abortController: AbortController | null = null;
+      let isCanceled = false;
+      const result = work({
+        onCancel: disposer.addDisposeHandler,
+        get isCanceled() {
+          return isCanceled;
+        },
+        get signal() {
+          if (!abortController) {
+            const controller = (abortController = new AbortController());
+            isCanceled
+              ? controller.abort()
+              : disposer.addDisposeHandler(() => controller.abort());
+          }
+          return abortController.signal;
+        },
+        reportProgress: progress =>
+          subscribers.forEach(subscriber => subscriber.reportProgress(progress))
+      });
+      if (!(result instanceof Promise)) return result;
+
+      const newEntry: DedupEntry = {
+        key,
+        result,
+        subscribers,
+        cancel: () => {
+          if (isCanceled) return;
+          isCanceled = true;
+          disposer.dispose();
+        }
+      };
+      const remove = () => this._remove(newEntry);
+      result.then(remove, remove);
+      this._entries = [...this._entries, newEntry];
+      entry = newEntry;
+    }
+
+    const { subscribers, result } = entry;
+    const subscribedEntry = entry;
+    subscribers.indexOf(helpers) < 0 && subscribers.push(helpers);
+    helpers.onCancel(() => {
+      subscribers.splice(subscribers.indexOf(helpers), 1);
+      if (!subscribers.length) {
+        this._remove(subscribedEntry);
+        subscribedEntry.cancel();
+      }
+    });
+    return result;
+  }
+
+  private _entries: DedupEntry[] = [];
+
+  private _find(key: any) {
+    return this._entries.find(entry => deepEqual(entry.key, key)) || null;
+  }
+
+  private _remove(entry: DedupEntry) {
+    this._entries = this._entries.filter(item => item !== entry);
+  }
+}
+
+/**
+ * Describes work in flight in a [[DedupRegistry]].
+ */
+interface DedupEntry {
+  key: any;
+  result: Promise<any>;
+  subscribers: TaskHelpers<any>[];
+  cancel(): void;
+}
+
+/**
+ * The registry shared by tasks that opt in to deduplication without
+ * specifying their own.
+ */
+export const defaultDedupRegistry = new DedupRegistry();
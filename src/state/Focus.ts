@@ -27,6 +27,7 @@ export default class FocusState extends State {
    */
   @action
   focus() {
+    this.warnIfDisposed("focus()");
     currentFocus.set(this);
   }
 
@@ -57,4 +58,14 @@ export default class FocusState extends State {
   reportBlur() {
     this.blur();
   }
+
+  /**
+   * Disposes the focus state. If the state is focused, it is blurred.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this.blur();
+    super.dispose();
+  }
 }
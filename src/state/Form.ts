@@ -3,10 +3,11 @@ import InputGroup, {
   InferInputGroupValue
 } from "./InputGroup";
 import { MaybeConstant } from "../utils/types";
-import Task, { TaskAction } from "./Task";
+import Task, { TaskAction, PendingIndicatorOptions } from "./Task";
+import { sequence, PipelineProgress } from "./TaskPipeline";
 import createLookup from "../utils/lookup";
 import Input from "./Input";
-import { computed } from "mobx";
+import { computed, action } from "mobx";
 import Validator from "./Validator";
 import { StateDevOptions } from "./State";
 import createWeakProperty from "../utils/weakProp";
@@ -48,14 +49,15 @@ export default class Form<
         this
       ),
       {
-        initialProgress: { phase: "validation" },
+        initialProgress: { phase: "validation", stage: 0, overall: 0 },
+        pendingIndicator: options.pendingIndicator,
         name:
           options && options.name
             ? `(form "${options.name}" Task)`
             : "(form Task)"
       }
     );
-    createLookup(
+    this._disposeFormLookup = createLookup(
       this as Form<any, any, TActionProgress>,
       () => this.flattedInputs,
       input => privateInputForms.get(input)
@@ -70,10 +72,28 @@ export default class Form<
   }
 
   /**
-   * Return the last submit result.
+   * Returns true if a submitting indicator should be shown for the form. This
+   * follows [[isSubmitting]], but delayed and held according to
+   * [[FormOptions.pendingIndicator]].
+   * @see [[Task.isPendingVisible]]
    */
-  get submitResult() {
-    return this._task.result;
+  get isSubmittingVisible() {
+    return this._task.isPendingVisible;
+  }
+
+  /**
+   * Return the last submit result. If the submit action (or the validation
+   * before it) threw or rejected, this is a [[FormActionError]].
+   */
+  get submitResult():
+    | SubmitResult<TActionResult>
+    | FormValidationError
+    | FormActionError
+    | void {
+    const task = this._task;
+    return task.isError
+      ? { outcome: "error" as "error", error: task.error }
+      : task.result;
   }
 
   /**
@@ -120,6 +140,7 @@ export default class Form<
    * Submits the form.export type
    */
   submit() {
+    this.warnIfDisposed("submit()");
     return this._task.invoke(null);
   }
 
@@ -141,6 +162,20 @@ export default class Form<
       : void 0;
   }
 
+  /**
+   * Disposes the form. Any pending submit is canceled and the inputs will no
+   * longer consider themselves part of the form.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._task.dispose();
+    this._disposeFormLookup();
+    super.dispose();
+  }
+
+  private _disposeFormLookup: () => void;
+
   private _task: Task<
     null,
     SubmitResult<TActionResult> | FormValidationError,
@@ -151,7 +186,8 @@ export default class Form<
 /**
  * Guards the form's submit by performing validation of the inputs and focusing
  * on any invalid input. In case of (and if only) everything is conclusively valid,
- * proceed to invoking the form's action.
+ * proceed to invoking the form's action. The validation and the action run as
+ * the two stages of a [[sequence]].
  * @param submitAction
  * @param form
  */
@@ -171,7 +207,41 @@ function guardSubmit<
   SubmitResult<TActionResult> | FormValidationError,
   SubmitProgress<TActionProgress>
 > {
-  return async (unusedArg, helpers) => {
+  const submitSequence = sequence(
+    validateStage(form),
+    actionStage(submitAction, form)
+  );
+  return (unusedArg, helpers) =>
+    submitSequence(unusedArg, {
+      onCancel: helpers.onCancel,
+      get isCanceled() {
+        return helpers.isCanceled;
+      },
+      get signal() {
+        return helpers.signal;
+      },
+      reportProgress: progress =>
+        helpers.reportProgress(
+          progress.stage === 0
+            ? { phase: "validation", ...progress }
+            : {
+                phase: "action",
+                actionProgress: progress.stageProgress as TActionProgress,
+                ...progress
+              }
+        )
+    });
+}
+
+/**
+ * Creates the validation stage of the form's submit, which validates the
+ * inputs and results in the validation error, if any.
+ * @param form
+ */
+function validateStage(
+  form: Form<any, any, any>
+): TaskAction<null, FormValidationError | null, never> {
+  return async () => {
     const { unconfirmedInputs } = form;
     if (form.options.autoConfirm) {
       unconfirmedInputs.forEach(input => input.markAsConfirmed());
@@ -199,18 +269,37 @@ function guardSubmit<
       privateInputForms.get(focusedInput).has(form)
     )
       focusedInput.focusState.blur();
+    return null;
+  };
+}
 
-    const innerReportProgress = (actionProgress: TActionProgress) =>
-      void helpers.reportProgress({ phase: "action", actionProgress });
-
-    helpers.reportProgress({
-      phase: "action",
-      actionProgress: form.options.initialProgress
-    });
-    const result = await submitAction(form.value, {
-      ...helpers,
-      reportProgress: innerReportProgress
-    });
+/**
+ * Creates the action stage of the form's submit, which invokes the form's
+ * action with the form's value unless the validation stage resulted in an
+ * error.
+ * @param submitAction
+ * @param form
+ */
+function actionStage<
+  TInputs extends InputGroupContent,
+  TActionResult,
+  TActionProgress
+>(
+  submitAction: TaskAction<
+    InferInputGroupValue<TInputs>,
+    TActionResult,
+    TActionProgress
+  >,
+  form: Form<TInputs, TActionResult, TActionProgress>
+): TaskAction<
+  FormValidationError | null,
+  SubmitResult<TActionResult> | FormValidationError,
+  TActionProgress
+> {
+  return async (validationError, helpers) => {
+    if (validationError) return validationError;
+    helpers.reportProgress(form.options.initialProgress as TActionProgress);
+    const result = await submitAction(form.value, helpers);
     return { outcome: "submit" as "submit", result };
   };
 }
@@ -249,11 +338,15 @@ function getValidators(inputs: Input<any>[]): Validator<any, any, any>[] {
 
 /**
  * Describes a submit progress, which is divided into the validation phase and
- * the action phase.
+ * the action phase. These are also the stages 0 and 1 of a
+ * [[PipelineProgress]], whose stage progress is the action's progress.
  */
 export type SubmitProgress<TActionProgress> =
-  | { phase: "validation" }
-  | { phase: "action"; actionProgress?: TActionProgress };
+  | ({ phase: "validation" } & PipelineProgress<TActionProgress>)
+  | ({
+      phase: "action";
+      actionProgress?: TActionProgress;
+    } & PipelineProgress<TActionProgress>);
 
 /**
  * Describes a submit result whose outcome was execution of the submit action.
@@ -272,6 +365,15 @@ export interface FormValidationError {
   errors: Input<any>[];
 }
 
+/**
+ * Describes a submit result whose outcome was that the submit failed because
+ * the submit action threw or rejected.
+ */
+export interface FormActionError {
+  outcome: "error";
+  error: any;
+}
+
 /**
  * Describes the form's customization.
  */
@@ -283,6 +385,10 @@ export interface FormOptions<
   /**
    * Specify the submit action. The outcome of this action will be saved in
    * the submit result state.
+   *
+   * The action runs as the stage after the form's validation stage. If the
+   * action itself consists of several stages, compose it with [[sequence]];
+   * the stage progress is then available in [[Form.submitActionProgress]].
    */
   action: TaskAction<
     InferInputGroupValue<TInputs>,
@@ -313,6 +419,12 @@ export interface FormOptions<
    * information accordingly by e.g. showing all invalid inputs in invalid state.
    */
   autoConfirm?: boolean;
+
+  /**
+   * If specified, [[Form.isSubmittingVisible]] is delayed and held according
+   * to these options.
+   */
+  pendingIndicator?: PendingIndicatorOptions;
 }
 
 /**
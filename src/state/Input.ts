@@ -45,6 +45,7 @@ export default class Input<TValue = any> extends State {
    */
   @action
   input(value: TValue) {
+    this.warnIfDisposed("input()");
     if (this.isBeingSubmitted) return;
     this._inputValue = value;
     this.validate("input");
@@ -109,6 +110,7 @@ export default class Input<TValue = any> extends State {
      */
     next?: boolean;
   }) {
+    this.warnIfDisposed("confirm()");
     if (this.isBeingSubmitted) return;
 
     let { value = void 0, next = false } = args || {};
@@ -328,6 +330,18 @@ export default class Input<TValue = any> extends State {
     return this._isConfirmed;
   }
 
+  /**
+   * Disposes the input along with its focus, hover and bounds states.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this.focusState.dispose();
+    this.hoverState.dispose();
+    this.boundsQuery.dispose();
+    super.dispose();
+  }
+
   readonly focusState = new FocusState();
   readonly hoverState = new HoverState();
   readonly boundsQuery = new BoundsQuery();
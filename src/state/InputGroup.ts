@@ -35,7 +35,7 @@ export default class InputGroup<
   ) {
     super(options);
     this._inputs = inputs;
-    createLookup(
+    this._disposeGroupLookup = createLookup(
       this,
       () => this.flattedInputs,
       input => privateInputGroup.get(input)
@@ -160,13 +160,25 @@ export default class InputGroup<
     return flattenStructure(this.structure);
   }
 
+  /**
+   * Disposes the input group. Its inputs will no longer consider themselves
+   * part of the group.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._disposeGroupLookup();
+    super.dispose();
+  }
+
   private _inputs: MaybeConstant<() => TInputs>;
+  private _disposeGroupLookup: () => void;
 }
 
 /**
  * Describe customization of an input group.
  */
-interface InputGroupOptions extends StateDevOptions {
+export interface InputGroupOptions extends StateDevOptions {
   /**
    * Extra hooks that listens to when one of the inputs belonging to the group
    * was confirmed by the user.
@@ -198,13 +210,14 @@ function getValueFromShape<TInputs extends InputShape>(
  * of input values.
  * @param inputs
  * @param value
+ * @ignore
  */
-function resetShape<TInputs extends InputGroupContent>(
+export function resetShape<TInputs extends InputGroupContent>(
   inputs: TInputs,
   value?: InferInputGroupValue<TInputs>
 ) {
   if (inputs instanceof Input) inputs.reset({ value });
-  else if (inputs instanceof InputGroup) resetShape(inputs.structure, value);
+  else if (inputs instanceof InputGroup) inputs.reset({ value });
   else if (Array.isArray(inputs))
     inputs.map((input, index) =>
       resetShape(input, value && (value as Array<any>)[index])
@@ -221,13 +234,14 @@ function resetShape<TInputs extends InputGroupContent>(
  * of input values.
  * @param inputs
  * @param value
+ * @ignore
  */
-function confirmShape<TInputs extends InputGroupContent>(
+export function confirmShape<TInputs extends InputGroupContent>(
   inputs: TInputs,
   value?: InferInputGroupValue<TInputs>
 ) {
   if (inputs instanceof Input) inputs.confirm({ value });
-  else if (inputs instanceof InputGroup) confirmShape(inputs.structure, value);
+  else if (inputs instanceof InputGroup) inputs.confirm({ value: value! });
   else if (Array.isArray(inputs))
     inputs.map((input, index) =>
       confirmShape(input, value && (value as Array<any>)[index])
@@ -265,8 +279,9 @@ function flattenInputs<TInputs extends InputShape>(
  * neat array. Does not collapse input groups.
  * @param inputs
  * @param buffer
+ * @ignore
  */
-function flattenStructure<TInputs extends InputGroupContent>(
+export function flattenStructure<TInputs extends InputGroupContent>(
   inputs: TInputs,
   buffer: (Input<any> | InputGroup<any>)[] = []
 ) {
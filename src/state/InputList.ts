@@ -0,0 +1,263 @@
+import { observable, action, computed, IObservableArray } from "mobx";
+import InputGroup, {
+  InputGroupContent,
+  InputGroupOptions,
+  InferInputGroupValue,
+  resetShape,
+  confirmShape,
+  flattenStructure
+} from "./InputGroup";
+
+let keyCounter = 0;
+
+/**
+ * Represents a dynamic list of input structures, such as the repeating section
+ * of a form where the user can "add another address".
+ *
+ * Each item of the list is created by an item factory and is identified by a
+ * stable key. Moving items around keeps the item's inputs (and therefore their
+ * confirmed state and their validators' state) intact.
+ *
+ * The list is itself an [[InputGroup]] whose structure is the array of its
+ * item contents, so it can be nested in other input groups and forms.
+ *
+ * @template TItem the input group content of each item.
+ */
+export default class InputList<
+  TItem extends InputGroupContent
+> extends InputGroup<TItem[]> {
+  /**
+   * Instantiates an input list.
+   * @param createItem Creates the inputs of a new list item. The item's key is
+   * given for convenience, e.g. for naming the inputs.
+   * @param options Customizes the input list behavior.
+   */
+  constructor(
+    createItem: (key: number) => TItem,
+    options?: InputListOptions<TItem>
+  ) {
+    const items = observable.array<InputListItem<TItem>>([], { deep: false });
+    super(() => items.map(item => item.content), options);
+    this._items = items;
+    this.createItem = createItem;
+
+    const initialValue = options && options.initialValue;
+    initialValue && this.replace(initialValue);
+  }
+
+  /**
+   * Creates the inputs of a new list item.
+   */
+  readonly createItem: (key: number) => TItem;
+
+  readonly options?: InputListOptions<TItem>;
+
+  /**
+   * Returns the list items in order. Each item is a pair of the item's stable
+   * key and the item's input structure.
+   */
+  get items(): ReadonlyArray<InputListItem<TItem>> {
+    return this._items;
+  }
+
+  /**
+   * Returns the keys of the list items in order. This is useful e.g. as React
+   * keys when rendering the items.
+   */
+  @computed
+  get keys() {
+    return this._items.map(item => item.key);
+  }
+
+  /**
+   * Returns the number of items in the list.
+   */
+  get length() {
+    return this._items.length;
+  }
+
+  /**
+   * Returns the position of the item with the specified key, or -1 if there
+   * is no such item in the list.
+   * @param key
+   */
+  indexOf(key: number) {
+    return this.keys.indexOf(key);
+  }
+
+  /**
+   * Returns the input structure of the item with the specified key, or null
+   * if there is no such item in the list.
+   * @param key
+   */
+  get(key: number) {
+    const index = this.indexOf(key);
+    return index < 0 ? null : this._items[index].content;
+  }
+
+  /**
+   * Creates a new item at the end of the list.
+   * @param value If provided, the new item's inputs are reset to this value.
+   * @returns the key of the new item.
+   */
+  @action
+  push(value?: InferInputGroupValue<TItem>) {
+    return this.insert(this._items.length, value);
+  }
+
+  /**
+   * Creates a new item at the specified position of the list.
+   * @param index The position of the new item. This is clamped to the list's
+   * bounds.
+   * @param value If provided, the new item's inputs are reset to this value.
+   * @returns the key of the new item.
+   */
+  @action
+  insert(index: number, value?: InferInputGroupValue<TItem>) {
+    this.warnIfDisposed("insert()");
+    const item = this._createItem(value);
+    this._items.splice(clamp(index, 0, this._items.length), 0, item);
+    return item.key;
+  }
+
+  /**
+   * Removes the item with the specified key from the list. The item's inputs
+   * are disposed.
+   * @param key
+   * @returns true if the item was removed, false if there was no such item.
+   */
+  @action
+  remove(key: number) {
+    const index = this.indexOf(key);
+    if (index < 0) return false;
+    this._items.splice(index, 1).forEach(disposeItem);
+    return true;
+  }
+
+  /**
+   * Moves an item to a different position. The item keeps its key and its
+   * inputs.
+   * @param fromIndex The current position of the item to move.
+   * @param toIndex The new position of the item. This is clamped to the list's
+   * bounds.
+   */
+  @action
+  move(fromIndex: number, toIndex: number) {
+    const items = this._items;
+    if (fromIndex < 0 || fromIndex >= items.length) return;
+    const [item] = items.splice(fromIndex, 1);
+    items.splice(clamp(toIndex, 0, items.length), 0, item);
+  }
+
+  /**
+   * Replaces all items of the list with new items, one for each value given.
+   * Unlike [[reset]], none of the current items are kept; they are disposed.
+   * @param values The values of the new items.
+   */
+  @action
+  replace(values: InferInputGroupValue<TItem>[]) {
+    this._items
+      .replace(values.map(value => this._createItem(value)))
+      .forEach(disposeItem);
+  }
+
+  /**
+   * Batch-reset the list items. If a value is provided, the list is first
+   * resized to the number of values: existing items are kept by position,
+   * excess items are removed (and disposed) and missing items are created.
+   * @param args
+   */
+  @action
+  reset(args?: {
+    /**
+     * The value to reset to. If not provided, every item resets to its defaults
+     * recursively.
+     */
+    value?: InferInputGroupValue<TItem[]>;
+  }) {
+    const value = args && (args.value as InferInputGroupValue<TItem>[] | void);
+    value && this._resize(value.length);
+    this._items.forEach((item, index) =>
+      resetShape(item.content, value ? value[index] : void 0)
+    );
+  }
+
+  /**
+   * Batch-confirm the list items. If a value is provided, the list is first
+   * resized to the number of values in the same way as [[reset]].
+   * @param args
+   */
+  @action
+  confirm(args: { value: InferInputGroupValue<TItem[]> }) {
+    const value = args && (args.value as InferInputGroupValue<TItem>[] | void);
+    value && this._resize(value.length);
+    this._items.forEach((item, index) =>
+      confirmShape(item.content, value ? value[index] : void 0)
+    );
+  }
+
+  /**
+   * Disposes the input list along with the inputs of all of its items.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._items.forEach(disposeItem);
+    super.dispose();
+  }
+
+  private _items: IObservableArray<InputListItem<TItem>>;
+
+  private _createItem(value?: InferInputGroupValue<TItem>) {
+    const key = ++keyCounter;
+    const content = this.createItem(key);
+    value !== void 0 && resetShape(content, value);
+    return { key, content };
+  }
+
+  private _resize(length: number) {
+    const items = this._items;
+    if (items.length > length) items.splice(length).forEach(disposeItem);
+    while (items.length < length) items.push(this._createItem());
+  }
+}
+
+/**
+ * Describes an item of an [[InputList]].
+ * @template TItem see [[InputList]]
+ */
+export interface InputListItem<TItem extends InputGroupContent> {
+  /**
+   * The item's stable key, which is unique across all input lists.
+   */
+  readonly key: number;
+
+  /**
+   * The item's input structure as created by the item factory.
+   */
+  readonly content: TItem;
+}
+
+/**
+ * Describes customization of an input list.
+ * @template TItem see [[InputList]]
+ */
+export interface InputListOptions<TItem extends InputGroupContent>
+  extends InputGroupOptions {
+  /**
+   * If provided, the list is populated with one item for each value.
+   */
+  initialValue?: InferInputGroupValue<TItem>[];
+}
+
+/**
+ * Disposes the inputs and input groups that make up an item's content.
+ * @param item
+ */
+function disposeItem(item: InputListItem<any>) {
+  flattenStructure(item.content).forEach(state => state.dispose());
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
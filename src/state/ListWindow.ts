@@ -0,0 +1,312 @@
+import { observable, action, computed, reaction } from "mobx";
+import State, { StateDevOptions } from "./State";
+import DataQuery from "./DataQuery";
+
+/**
+ * Represents the windowing state of a virtualized list whose items come from a
+ * [[DataQuery]], such as an infinite scroller.
+ *
+ * The presentation layer reports the viewport with [[setViewport]], and
+ * renders the [[slots]] absolutely positioned within a container of
+ * [[totalSize]]. The window state works out which items are visible using the
+ * item size estimates, and fetches more items (or, in sparse mode, the missing
+ * pages) as the viewport gets near items that are not loaded yet. Slots of
+ * such items are placeholders, e.g. for skeleton rows.
+ *
+ * @template ItemType the type of the data query's items
+ */
+export default class ListWindowState<ItemType = any> extends State {
+  /**
+   * Instantiates a list window state.
+   * @param dataQuery The data query that provides the items.
+   * @param options
+   */
+  constructor(
+    readonly dataQuery: DataQuery<any, ItemType>,
+    readonly options: ListWindowOptions = {}
+  ) {
+    super(options);
+    if (options.autoFetch !== false) {
+      this._disposeAutoFetch = reaction(
+        () => this._neededFetch,
+        needed => {
+          if (needed === "more") dataQuery.fetchMore();
+          else if (needed !== null) dataQuery.fetchPage(needed);
+        },
+        { fireImmediately: true }
+      );
+    }
+  }
+
+  /**
+   * Returns the scroll offset last reported with [[setViewport]].
+   */
+  get scrollTop() {
+    return this._scrollTop;
+  }
+
+  /**
+   * Returns the viewport height last reported with [[setViewport]].
+   */
+  get viewportHeight() {
+    return this._viewportHeight;
+  }
+
+  /**
+   * Returns the number of slots in the list. If the data query knows the total
+   * number of items, this is that number. Otherwise, it is the number of
+   * loaded items, plus one placeholder slot if there are more items to fetch.
+   */
+  @computed
+  get itemCount() {
+    const { dataQuery } = this;
+    const total = dataQuery.totalItems;
+    if (total !== null) return total;
+    const loadedEnd = dataQuery.windowOffset + dataQuery.items.length;
+    return dataQuery.hasMoreItems === false ? loadedEnd : loadedEnd + 1;
+  }
+
+  /**
+   * Returns the estimated size of the whole list, e.g. for the height of the
+   * scroll container.
+   */
+  get totalSize() {
+    return this.getItemOffset(this.itemCount);
+  }
+
+  /**
+   * Returns the range of the slots that intersect the viewport.
+   */
+  @computed
+  get visibleRange(): ListWindowRange {
+    const count = this.itemCount;
+    if (!count) return { start: 0, end: 0 };
+    const top = Math.max(this._scrollTop, 0);
+    const start = Math.min(this._indexAtOffset(top), count - 1);
+    const bottom = top + this._viewportHeight;
+    let end = this._indexAtOffset(bottom);
+    if (this.getItemOffset(end) < bottom) end++;
+    return { start, end: Math.min(Math.max(end, start + 1), count) };
+  }
+
+  /**
+   * Returns the range of the slots to render, which is the [[visibleRange]]
+   * extended by [[ListWindowOptions.overscan]] slots on both sides.
+   */
+  @computed
+  get renderRange(): ListWindowRange {
+    const { overscan = 3 } = this.options;
+    const { start, end } = this.visibleRange;
+    return {
+      start: Math.max(start - overscan, 0),
+      end: Math.min(end + overscan, this.itemCount)
+    };
+  }
+
+  /**
+   * Returns the slots to render, in order.
+   */
+  @computed
+  get slots(): ReadonlyArray<ListWindowSlot<ItemType>> {
+    const { start, end } = this.renderRange;
+    const slots: ListWindowSlot<ItemType>[] = [];
+    for (let index = start; index < end; index++) {
+      const offset = this.getItemOffset(index);
+      const loaded = this._getLoadedItem(index);
+      slots.push({
+        index,
+        offset,
+        size: this.getItemOffset(index + 1) - offset,
+        isLoaded: loaded !== null,
+        item: loaded ? loaded.item : void 0
+      });
+    }
+    return slots;
+  }
+
+  /**
+   * Returns the estimated offset of the slot with the specified index from the
+   * top of the list, e.g. for scrolling to an item.
+   * @param index
+   */
+  getItemOffset(index: number) {
+    const { itemSize = 40 } = this.options;
+    if (typeof itemSize === "number") return index * itemSize;
+    const offsets = this._offsets;
+    return offsets[Math.min(Math.max(index, 0), offsets.length - 1)];
+  }
+
+  /**
+   * Reports the viewport of the list, typically on scroll and resize.
+   * @param viewport
+   */
+  @action
+  setViewport(viewport: { scrollTop: number; height: number }) {
+    this._scrollTop = viewport.scrollTop;
+    this._viewportHeight = viewport.height;
+  }
+
+  /**
+   * Disposes the list window state, so that it no longer fetches
+   * automatically. The data query is not disposed.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._disposeAutoFetch();
+    super.dispose();
+  }
+
+  @observable
+  private _scrollTop = 0;
+
+  @observable
+  private _viewportHeight = 0;
+
+  private _disposeAutoFetch = () => {};
+
+  /**
+   * Returns the offsets of the slots when the item size is a function, with
+   * one extra entry for the end of the list.
+   */
+  @computed
+  private get _offsets() {
+    const { itemSize } = this.options;
+    const offsets = [0];
+    if (typeof itemSize !== "function") return offsets;
+    for (let index = 0; index < this.itemCount; index++) {
+      offsets.push(offsets[index] + itemSize(index));
+    }
+    return offsets;
+  }
+
+  /**
+   * Returns the index of the slot at the specified offset.
+   */
+  private _indexAtOffset(offset: number) {
+    const { itemSize = 40 } = this.options;
+    if (typeof itemSize === "number") return Math.floor(offset / itemSize);
+
+    const offsets = this._offsets;
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      offsets[middle] <= offset ? (low = middle) : (high = middle - 1);
+    }
+    return low;
+  }
+
+  private _getLoadedItem(index: number): { item: ItemType } | null {
+    const { dataQuery } = this;
+    const pageSize = dataQuery.options.fetchLimit;
+    if (dataQuery.options.sparse && pageSize) {
+      const page = dataQuery.pages.get(Math.floor(index / pageSize));
+      const position = page ? index - page.offset : -1;
+      return page && page.status === "loaded" && position < page.items.length
+        ? { item: page.items[position] }
+        : null;
+    }
+    const position = index - dataQuery.windowOffset;
+    return position >= 0 && position < dataQuery.items.length
+      ? { item: dataQuery.items[position] }
+      : null;
+  }
+
+  /**
+   * Returns what the render range needs to be fetched next: more items, the
+   * index of a missing page in sparse mode, or null if nothing.
+   */
+  @computed
+  private get _neededFetch(): "more" | number | null {
+    const { dataQuery } = this;
+    const { start, end } = this.renderRange;
+    const pageSize = dataQuery.options.fetchLimit;
+
+    if (dataQuery.options.sparse && pageSize) {
+      const lastPage = Math.ceil(end / pageSize) - 1;
+      for (let page = Math.floor(start / pageSize); page <= lastPage; page++) {
+        if (!dataQuery.pages.has(page)) return page;
+      }
+      return null;
+    }
+
+    if (dataQuery.isFetching || dataQuery.isError || !dataQuery.hasMoreItems)
+      return null;
+    const { fetchThreshold = 10 } = this.options;
+    const loadedEnd = dataQuery.windowOffset + dataQuery.items.length;
+    return end + fetchThreshold >= loadedEnd ? "more" : null;
+  }
+}
+
+/**
+ * Describes a range of slots of a [[ListWindowState]], from `start` inclusive
+ * to `end` exclusive.
+ */
+export interface ListWindowRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Describes a slot of a [[ListWindowState]] to render.
+ * @template ItemType see [[ListWindowState]]
+ */
+export interface ListWindowSlot<ItemType> {
+  /**
+   * The index of the slot in the list.
+   */
+  readonly index: number;
+
+  /**
+   * The estimated offset of the slot from the top of the list.
+   */
+  readonly offset: number;
+
+  /**
+   * The estimated size of the slot.
+   */
+  readonly size: number;
+
+  /**
+   * False if the slot is a placeholder for an item that is not loaded yet.
+   */
+  readonly isLoaded: boolean;
+
+  /**
+   * The item of the slot. This is undefined for placeholders.
+   */
+  readonly item?: ItemType;
+}
+
+/**
+ * Specifies customization of a list window state.
+ */
+export interface ListWindowOptions extends StateDevOptions {
+  /**
+   * The estimated size of every item, or a function that estimates the size
+   * of the item at an index. Defaults to 40.
+   */
+  itemSize?: number | ((index: number) => number);
+
+  /**
+   * The number of slots to render beyond both edges of the viewport. Defaults
+   * to 3.
+   */
+  overscan?: number;
+
+  /**
+   * How close (in number of slots) the render range may get to the end of the
+   * loaded items before more items are fetched. Defaults to 10. This does not
+   * apply in sparse mode, where the missing pages of the render range are
+   * fetched.
+   */
+  fetchThreshold?: number;
+
+  /**
+   * If false, the list window state does not fetch automatically. Defaults to
+   * true. After a failed fetch, fetching more items automatically resumes
+   * only once a fetch of the data query succeeds, e.g. a retry by the user.
+   */
+  autoFetch?: boolean;
+}
@@ -1,5 +1,6 @@
 import { observable, IObservableValue, runInAction } from "mobx";
 import State, { StateDevOptions } from "../state/State";
+import Disposer from "../utils/disposer";
 
 /**
  * Contains reactive state that changes depending on the match of the media
@@ -22,11 +23,15 @@ export default class MediaQueryState<
       const queryObservable = (this._queryValues[key] = observable.box(
         mediaQueryList.matches
       ));
-      mediaQueryList.addListener(ev => {
+      const listener = (ev: MediaQueryListEvent) => {
         runInAction(() => {
           queryObservable.set(ev.matches);
         });
-      });
+      };
+      mediaQueryList.addListener(listener);
+      this._disposer.addDisposeHandler(() =>
+        mediaQueryList.removeListener(listener)
+      );
     });
   }
 
@@ -38,5 +43,15 @@ export default class MediaQueryState<
     return this._queryValues[key].get();
   }
 
+  /**
+   * Disposes the media query state. The media queries are no longer watched.
+   */
+  dispose() {
+    if (this.isDisposed) return;
+    this._disposer.dispose();
+    super.dispose();
+  }
+
+  private _disposer = new Disposer();
   private _queryValues: { [key in keyof TQuery]: IObservableValue<boolean> };
 }
@@ -0,0 +1,240 @@
+import { observable, action } from "mobx";
+import State, { StateDevOptions } from "./State";
+import { Clock, defaultClock } from "../utils/clock";
+import { VisibilitySource, documentVisibility } from "../utils/visibility";
+
+/**
+ * Represents the state of a periodic re-invocation, such as refreshing the
+ * data of a dashboard. The poller can be paused and resumed, skips polls while
+ * the previous one is still pending, and can pause while the page is hidden.
+ *
+ * Pollers are usually obtained from [[Task.poll]] or [[DataQuery.poll]].
+ */
+export default class Poller extends State {
+  /**
+   * Instantiates a poller. The poller does not poll until it is started.
+   * @param poll Performs a single poll.
+   * @param options Customizes the polling.
+   * @param isPending Returns true if the previous poll is still pending. By
+   * default, this is true while the promise returned from the last poll is
+   * unresolved.
+   */
+  constructor(
+    readonly poll: () => any,
+    readonly options: PollingOptions,
+    isPending?: () => boolean
+  ) {
+    super(options);
+    this._isPending = isPending || (() => this._isPolling);
+  }
+
+  /**
+   * Returns true if the poller has been started and not stopped.
+   */
+  get isRunning() {
+    return this._isRunning;
+  }
+
+  /**
+   * Returns true if the poller has been paused with [[pause]].
+   */
+  get isPaused() {
+    return this._isPaused;
+  }
+
+  /**
+   * Returns true if the poller is waiting for the page to become visible. This
+   * is always false unless [[PollingOptions.pauseWhenHidden]] is specified.
+   */
+  get isHidden() {
+    return this._isHidden;
+  }
+
+  /**
+   * Returns true if the poller is actually polling: it is running, and is
+   * neither paused nor waiting for the page to become visible.
+   */
+  get isActive() {
+    return this._isRunning && !this._isPaused && !this._isHidden;
+  }
+
+  /**
+   * Returns the timestamp (according to the poller's clock) of the last poll,
+   * or null if the poller has never polled.
+   */
+  get lastPolledAt() {
+    return this._lastPolledAt;
+  }
+
+  /**
+   * Starts polling. If [[PollingOptions.immediate]] is specified, the first
+   * poll happens right away; otherwise it happens after the interval.
+   */
+  @action
+  start() {
+    this.warnIfDisposed("start()");
+    if (this._isRunning) return;
+    this._isRunning = true;
+
+    const { pauseWhenHidden = false, visibility = documentVisibility } =
+      this.options;
+    if (pauseWhenHidden) {
+      this._isHidden = visibility.isHidden();
+      this._unsubscribeVisibility = visibility.subscribe(
+        action(() => {
+          this._isHidden = visibility.isHidden();
+          this._schedule();
+        })
+      );
+    }
+
+    this._scheduledFrom = this.options.immediate ? null : this._clock.now();
+    this._schedule();
+  }
+
+  /**
+   * Stops polling. A pending poll is not canceled.
+   */
+  @action
+  stop() {
+    if (!this._isRunning) return;
+    this._isRunning = false;
+    this._unsubscribeVisibility && this._unsubscribeVisibility();
+    this._unsubscribeVisibility = null;
+    this._isHidden = false;
+    this._schedule();
+  }
+
+  /**
+   * Pauses polling until [[resume]] is called.
+   */
+  @action
+  pause() {
+    this._isPaused = true;
+    this._schedule();
+  }
+
+  /**
+   * Resumes polling paused by [[pause]]. If the interval has already elapsed
+   * since the last poll, the next poll happens right away.
+   */
+  @action
+  resume() {
+    this._isPaused = false;
+    this._schedule();
+  }
+
+  /**
+   * Disposes the poller. Polling stops.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this.stop();
+    super.dispose();
+  }
+
+  @observable
+  private _isRunning = false;
+
+  @observable
+  private _isPaused = false;
+
+  @observable
+  private _isHidden = false;
+
+  @observable
+  private _isPolling = false;
+
+  @observable.ref
+  private _lastPolledAt: number | null = null;
+
+  private _scheduledFrom: number | null = null;
+  private _timer: any = null;
+  private _isPending: () => boolean;
+  private _unsubscribeVisibility: (() => void) | null = null;
+
+  private get _clock(): Clock {
+    return this.options.clock || defaultClock;
+  }
+
+  /**
+   * (Re-)schedules the next poll, which is due one interval after the last
+   * poll (or after the start), or clears the schedule if the poller is not
+   * active.
+   */
+  private _schedule() {
+    const clock = this._clock;
+    if (this._timer !== null) {
+      clock.clearTimeout(this._timer);
+      this._timer = null;
+    }
+    if (!this.isActive) return;
+
+    const scheduledFrom = this._scheduledFrom;
+    const delay =
+      scheduledFrom === null
+        ? 0
+        : Math.max(scheduledFrom + this.options.interval - clock.now(), 0);
+    this._timer = clock.setTimeout(() => {
+      this._timer = null;
+      this._tick();
+    }, delay);
+  }
+
+  @action
+  private _tick() {
+    this._lastPolledAt = this._scheduledFrom = this._clock.now();
+    const { skipIfPending = true } = this.options;
+    if (!(skipIfPending && this._isPending())) {
+      const result = this.poll();
+      if (result instanceof Promise) {
+        this._isPolling = true;
+        const settle = action(() => (this._isPolling = false));
+        result.then(settle, settle);
+      }
+    }
+    this._schedule();
+  }
+}
+
+/**
+ * Describes customization of a [[Poller]].
+ */
+export interface PollingOptions extends StateDevOptions {
+  /**
+   * The number of milliseconds between polls.
+   */
+  interval: number;
+
+  /**
+   * If true, the first poll happens as soon as polling starts. Otherwise, it
+   * happens after the interval.
+   */
+  immediate?: boolean;
+
+  /**
+   * If true (the default), a poll is skipped when the previous one is still
+   * pending.
+   */
+  skipIfPending?: boolean;
+
+  /**
+   * If true, polling pauses while the page is hidden. When the page becomes
+   * visible again and the interval has elapsed, the next poll happens right
+   * away.
+   */
+  pauseWhenHidden?: boolean;
+
+  /**
+   * Specifies where the page visibility comes from. Defaults to the DOM's
+   * Page Visibility API.
+   */
+  visibility?: VisibilitySource;
+
+  /**
+   * Specifies the clock used for scheduling the polls. Defaults to the global
+   * timers.
+   */
+  clock?: Clock;
+}
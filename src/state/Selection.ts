@@ -0,0 +1,259 @@
+import { observable, action, computed } from "mobx";
+import State, { StateDevOptions } from "./State";
+import DataQuery from "./DataQuery";
+import deepEqual from "../utils/deepEqual";
+
+/**
+ * Represents the selection of items of a [[DataQuery]], such as the checked
+ * rows of a list with bulk actions.
+ *
+ * Items are selected by their key, so the selection survives fetching more
+ * items and fetching other queries. In `multiple` mode, [[selectRange]]
+ * supports shift-click selection from the anchor, which is the item that was
+ * last selected or toggled.
+ *
+ * The selection can also be "all items matching the query", including items
+ * that are not loaded. This is stored as the query and the set of items that
+ * were deselected since, so that the selection can be sent to a bulk endpoint
+ * with [[description]] without loading every item. The all-matching mode
+ * only applies while that query is the data query's active query. Otherwise,
+ * nothing is selected, and selecting an item starts a new selection.
+ *
+ * @template QueryType see [[DataQuery]]
+ * @template ItemType see [[DataQuery]]
+ */
+export default class SelectionState<
+  QueryType = any,
+  ItemType = any
+> extends State {
+  /**
+   * Instantiates a selection state.
+   * @param dataQuery The data query whose items are selected.
+   * @param options
+   */
+  constructor(
+    readonly dataQuery: DataQuery<QueryType, ItemType>,
+    readonly options: SelectionOptions<ItemType> = {}
+  ) {
+    super(options);
+  }
+
+  /**
+   * Returns true if all items matching the active query are selected, except
+   * for the ones deselected since.
+   */
+  get isAllMatching() {
+    return this._activeAllMatching !== null;
+  }
+
+  /**
+   * Returns the keys of the selected items. In the all-matching mode, these
+   * are instead the keys of the deselected items.
+   */
+  get keys(): ReadonlySet<any> {
+    return this._keys;
+  }
+
+  /**
+   * Returns the number of selected items. In the all-matching mode, this
+   * depends on [[DataQuery.totalItems]], and is null if that is not known.
+   */
+  @computed
+  get selectedCount() {
+    if (!this._allMatching) return this._keys.size;
+    if (!this._activeAllMatching) return 0;
+    const total = this.dataQuery.totalItems;
+    return total === null ? null : Math.max(total - this._keys.size, 0);
+  }
+
+  /**
+   * Returns the loaded items that are selected, in order.
+   */
+  @computed
+  get selectedItems(): ReadonlyArray<ItemType> {
+    return this.dataQuery.items.filter(item => this.isSelected(item));
+  }
+
+  /**
+   * Returns a serializable description of the selection, e.g. to be sent to a
+   * bulk endpoint.
+   */
+  @computed
+  get description(): SelectionDescription<QueryType> {
+    const allMatching = this._allMatching;
+    if (allMatching && !this._activeAllMatching)
+      return { type: "keys", keys: [] };
+    const keys = Array.from(this._keys);
+    return allMatching
+      ? { type: "allMatching", query: allMatching.query, excludedKeys: keys }
+      : { type: "keys", keys };
+  }
+
+  /**
+   * Returns true if the specified item is selected.
+   * @param item
+   */
+  isSelected(item: ItemType) {
+    if (this._allMatching && !this._activeAllMatching) return false;
+    const isListed = this._keys.has(this._getKey(item));
+    return this._allMatching ? !isListed : isListed;
+  }
+
+  /**
+   * Selects an item and makes it the anchor. In `single` mode, this replaces
+   * the selection.
+   * @param item
+   */
+  @action
+  select(item: ItemType) {
+    if (this.options.mode === "single") this.clear();
+    this._setSelected(item, true);
+    this._anchor = { item };
+  }
+
+  /**
+   * Deselects an item.
+   * @param item
+   */
+  @action
+  deselect(item: ItemType) {
+    this._setSelected(item, false);
+  }
+
+  /**
+   * Selects the item if it is not selected, or deselects it otherwise, and
+   * makes it the anchor.
+   * @param item
+   */
+  @action
+  toggle(item: ItemType) {
+    if (this.isSelected(item)) {
+      this.deselect(item);
+      this._anchor = { item };
+    } else {
+      this.select(item);
+    }
+  }
+
+  /**
+   * Selects the loaded items from the anchor to the specified item, both
+   * inclusive, as with shift-click. The anchor does not change. If there is no
+   * anchor, if either item is not loaded, or in `single` mode, this selects
+   * only the specified item.
+   * @param item
+   */
+  @action
+  selectRange(item: ItemType) {
+    const anchor = this._anchor;
+    const items = this.dataQuery.items;
+    const from = anchor === null ? -1 : this._indexOf(anchor.item);
+    const to = this._indexOf(item);
+    if (this.options.mode === "single" || from < 0 || to < 0) {
+      this.select(item);
+      return;
+    }
+    items
+      .slice(Math.min(from, to), Math.max(from, to) + 1)
+      .forEach(item => this._setSelected(item, true));
+  }
+
+  /**
+   * Selects all items matching the active query of the data query, including
+   * the items that are not loaded. Items can then be deselected individually.
+   * This is no-op in `single` mode.
+   */
+  @action
+  selectAllMatching() {
+    if (this.options.mode === "single") return;
+    this._keys = new Set();
+    this._allMatching = { query: this.dataQuery.activeQuery as QueryType };
+  }
+
+  /**
+   * Deselects all items, and forgets the anchor.
+   */
+  @action
+  clear() {
+    this._keys = new Set();
+    this._allMatching = null;
+    this._anchor = null;
+  }
+
+  @observable.ref
+  private _keys: ReadonlySet<any> = new Set();
+
+  @observable.ref
+  private _allMatching: { query: QueryType } | null = null;
+
+  @observable.ref
+  private _anchor: { item: ItemType } | null = null;
+
+  /**
+   * Returns the all-matching selection if its query is the active query.
+   */
+  @computed
+  private get _activeAllMatching() {
+    const allMatching = this._allMatching;
+    const { activeQuery } = this.dataQuery;
+    return allMatching && deepEqual(activeQuery, allMatching.query)
+      ? allMatching
+      : null;
+  }
+
+  private _getKey(item: ItemType) {
+    const itemKey = this.options.itemKey || this.dataQuery.options.itemKey;
+    return itemKey ? itemKey(item) : item;
+  }
+
+  private _indexOf(item: ItemType) {
+    const key = this._getKey(item);
+    return this.dataQuery.items.findIndex(item => this._getKey(item) === key);
+  }
+
+  /**
+   * Lists or unlists the item's key, depending on whether the keys are of the
+   * selected items or, in the all-matching mode, the deselected items. An
+   * all-matching selection of another query is dropped first.
+   */
+  @action
+  private _setSelected(item: ItemType, isSelected: boolean) {
+    if (this._allMatching && !this._activeAllMatching) {
+      this._keys = new Set();
+      this._allMatching = null;
+    }
+    const key = this._getKey(item);
+    const keys = new Set(Array.from(this._keys));
+    isSelected === !this._allMatching ? keys.add(key) : keys.delete(key);
+    this._keys = keys;
+  }
+}
+
+/**
+ * Describes a selection in a serializable way.
+ * - `keys`: the items with the listed keys are selected.
+ * - `allMatching`: all items matching the query are selected, except for the
+ *   items with the excluded keys.
+ * @template QueryType see [[DataQuery]]
+ */
+export type SelectionDescription<QueryType> =
+  | { type: "keys"; keys: any[] }
+  | { type: "allMatching"; query: QueryType; excludedKeys: any[] };
+
+/**
+ * Specifies customization of a selection state.
+ * @template ItemType see [[DataQuery]]
+ */
+export interface SelectionOptions<ItemType> extends StateDevOptions {
+  /**
+   * Whether one item or any number of items can be selected. Defaults to
+   * `multiple`.
+   */
+  mode?: "single" | "multiple";
+
+  /**
+   * Computes the key that identifies an item. Keys are compared as in a `Set`,
+   * so they should be primitives such as IDs. Defaults to
+   * [[DataQueryOptions.itemKey]], or the item itself.
+   */
+  itemKey?: (item: ItemType) => any;
+}
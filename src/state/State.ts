@@ -1,3 +1,5 @@
+import { observable, action } from "mobx";
+
 /**
  * Represents any generic UI state. Other specialized UI states such as inputs
  * and tasks derive from this state.
@@ -15,6 +17,48 @@ export default class State {
   get name() {
     return (this.devOptions && this.devOptions.name) || null;
   }
+
+  /**
+   * Returns true if the UI state has been disposed.
+   */
+  get isDisposed() {
+    return this._isDisposed;
+  }
+
+  /**
+   * Disposes the UI state. This releases everything that the state holds on
+   * to, such as reactions, event listeners and pending tasks. A disposed state
+   * should no longer be used; doing so issues a warning in development.
+   *
+   * Specialized UI states extend this method to release their own resources.
+   * Calling it more than once is no-op.
+   */
+  @action
+  dispose() {
+    this._isDisposed = true;
+  }
+
+  /**
+   * Warns (in development only) that the UI state is being used after it has
+   * been disposed.
+   * @param usage Describes how the state is being used, e.g. the method name.
+   */
+  protected warnIfDisposed(usage: string) {
+    if (
+      this._isDisposed &&
+      typeof process !== "undefined" &&
+      process.env.NODE_ENV !== "production"
+    ) {
+      console.warn(
+        `Attempted to call ${usage} on state \`${
+          this.name
+        }\` but it has already been disposed.`
+      );
+    }
+  }
+
+  @observable
+  private _isDisposed = false;
 }
 
 /**
@@ -1,19 +1,46 @@
-import { observable, action } from "mobx";
+import { observable, action, computed } from "mobx";
 import { MaybePromise } from "../utils/types";
 import State, { StateDevOptions } from "./State";
 import Disposer from "../utils/disposer";
+import { Clock, defaultClock } from "../utils/clock";
+import Poller, { PollingOptions } from "./Poller";
+import deepEqual from "../utils/deepEqual";
+import DedupRegistry, { defaultDedupRegistry } from "./DedupRegistry";
 
 const $canceled = Symbol("Canceled");
-class InvokeInstance {
+class InvokeInstance<TArg = any, TProgress = any> {
   private readonly _disposer = new Disposer();
   private _resolver: null | ((token: typeof $canceled) => void) = null;
+  private _finisher: null | (() => void) = null;
+  private _abortController: AbortController | null = null;
   private _isCanceled = false;
   private _isSettled = false;
 
+  constructor(readonly args: TArg, progress?: TProgress) {
+    this.progress = progress;
+  }
+
   readonly killerPromise = new Promise<typeof $canceled>(
     resolve => (this._resolver = resolve)
   );
 
+  /**
+   * Resolves when the invocation has either settled or been canceled.
+   */
+  readonly promise = new Promise<void>(resolve => (this._finisher = resolve));
+
+  @observable.ref
+  progress?: TProgress;
+
+  @observable
+  attempt = 0;
+
+  @observable.ref
+  nextRetryAt: number | null = null;
+
+  isSuperseded = false;
+  startedAt: number | null = null;
+
   get isCanceled() {
     return this._isCanceled;
   }
@@ -22,18 +49,35 @@ class InvokeInstance {
     return this._disposer.addDisposeHandler;
   }
 
+  /**
+   * Lazily creates an abort signal that aborts when the instance is canceled.
+   */
+  get signal() {
+    if (!this._abortController) {
+      const abortController = (this._abortController = new AbortController());
+      this._isCanceled
+        ? abortController.abort()
+        : this.addCancelHandler(() => abortController.abort());
+    }
+    return this._abortController.signal;
+  }
+
   cancel() {
     if (!this._isCanceled) {
       this._isCanceled = true;
       if (!this._isSettled) {
         this._resolver && this._resolver($canceled);
         this._disposer.dispose();
+        this._finisher && this._finisher();
       }
     }
   }
 
   settle() {
-    if (!this._isCanceled) this._isSettled = true;
+    if (!this._isCanceled) {
+      this._isSettled = true;
+      this._finisher && this._finisher();
+    }
   }
 }
 
@@ -58,25 +102,167 @@ export default class Task<
    */
   constructor(
     readonly action: TaskAction<TArg, TResult, TProgress>,
-    options?: TaskOptions<TProgress>
+    readonly options?: TaskOptions<TProgress>
   ) {
     super(options);
   }
 
   /**
-   * Returns true if the task is in pending state.
+   * Returns true if the task is in pending state. For tasks that queue their
+   * invocations, this includes the queued invocations.
+   *
+   * @see [[TaskOptions.concurrency]]
    */
   get isPending() {
-    return this._isPending;
+    return this._running.length > 0 || this._queue.length > 0;
+  }
+
+  /**
+   * Returns true if a pending indicator (e.g. a spinner) should be shown for
+   * the task. Unlike [[isPending]], this only turns true once the task has
+   * been pending for a while, and once true, it stays true for a minimum
+   * duration, so that fast tasks do not make the indicator flicker.
+   *
+   * Without [[TaskOptions.pendingIndicator]], this is the same as
+   * [[isPending]].
+   */
+  get isPendingVisible() {
+    return this.options && this.options.pendingIndicator
+      ? this._isPendingVisible
+      : this.isPending;
   }
 
   /**
-   * Returns the result of the last completed task.
+   * Returns the number of invocations that are waiting for their turn to run.
+   * This is always zero unless the task's concurrency is `queue` or `parallel`.
+   *
+   * @see [[TaskOptions.concurrency]]
+   */
+  get queueLength() {
+    return this._queue.length;
+  }
+
+  /**
+   * Returns the result of the last completed task. If the last completed task
+   * failed, this is undefined, unless it was revalidating a stale result.
    */
   get result() {
     return this._result;
   }
 
+  /**
+   * Returns true if the [[result]] may be out of date: it was served from the
+   * cache and has not been revalidated yet, or it was invalidated. This is
+   * always false unless [[TaskOptions.cache]] is specified.
+   */
+  get isStale() {
+    return this._isStale;
+  }
+
+  /**
+   * Returns true if the last completed task failed, that is, its action threw
+   * or its promise rejected.
+   */
+  get isError() {
+    return this._outcome === "error";
+  }
+
+  /**
+   * Returns the error that the last completed task failed with. This is
+   * undefined if the last completed task did not fail.
+   */
+  get error() {
+    return this._error;
+  }
+
+  /**
+   * Returns how the last task ended: with a result, with an error or by being
+   * canceled. This is null if no task has ended yet.
+   */
+  get outcome() {
+    return this._outcome;
+  }
+
+  /**
+   * Returns the timestamp (in milliseconds since the epoch) of when the last
+   * task ended, regardless of its outcome. This is null if no task has ended
+   * yet.
+   */
+  get lastSettledAt() {
+    return this._lastSettledAt;
+  }
+
+  /**
+   * Returns the attempt number (starting from 1) of the pending task. This is
+   * only ever greater than 1 if the task is configured to retry. If several
+   * invocations are running at once, this is the attempt of the most recently
+   * started one. This is zero if the task is not pending.
+   *
+   * @see [[TaskOptions.retry]]
+   */
+  get attempt() {
+    const running = this._running;
+    return running.length ? running[running.length - 1].attempt : 0;
+  }
+
+  /**
+   * Returns the timestamp (according to the task's clock) of when the pending
+   * task will retry after a failed attempt. This is null if the task is not
+   * waiting to retry.
+   *
+   * @see [[TaskOptions.retry]]
+   */
+  get nextRetryAt() {
+    const running = this._running;
+    return running.length ? running[running.length - 1].nextRetryAt : null;
+  }
+
+  /**
+   * Returns the records of the most recent invocations, oldest first. This is
+   * always empty unless [[TaskOptions.history]] is specified.
+   *
+   * Only invocations that have started running are recorded; queued
+   * invocations that were canceled before they started are not.
+   */
+  get history(): ReadonlyArray<TaskInvocationRecord<TArg, TProgress>> {
+    return this._history;
+  }
+
+  /**
+   * Returns aggregate statistics over the recorded [[history]], e.g. to be
+   * forwarded to telemetry.
+   */
+  @computed
+  get historyStats(): TaskHistoryStats {
+    const history = this._history;
+    const count = history.length;
+    if (!count) {
+      return { count, meanDuration: null, p95Duration: null, cancelRate: null };
+    }
+
+    const durations = history.map(record => record.duration);
+    durations.sort((a, b) => a - b);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    const canceled = history.filter(
+      record =>
+        record.outcome === "canceled" || record.outcome === "superseded"
+    ).length;
+    return {
+      count,
+      meanDuration: total / count,
+      p95Duration: durations[Math.ceil(count * 0.95) - 1],
+      cancelRate: canceled / count
+    };
+  }
+
+  /**
+   * Forgets all recorded invocations.
+   */
+  @action
+  clearHistory() {
+    this._history = [];
+  }
+
   /**
    * Returns the argument of the last task, regardless of whether that task
    * actually completed.
@@ -87,72 +273,79 @@ export default class Task<
 
   /**
    * Returns the last reported progress of the pending task. Has no meaning if
-   * the task is not in pending state.
+   * the task is not in pending state. If several invocations are running at
+   * once, this is the progress of the most recently started one.
    */
   get progress() {
-    return this._progress;
+    const running = this._running;
+    return running.length ? running[running.length - 1].progress : void 0;
   }
 
   /**
    * Returns the promise that resolves when the task is completed or is canceled.
+   * If several invocations are running or queued, the promise resolves when
+   * all of them are. This is null if the task is not pending.
    */
   get promise() {
     return this._promise;
   }
 
   /**
-   * Runs the task.
+   * Runs the task. What happens when the task is already pending depends on
+   * the task's concurrency: by default, the pending task is canceled.
    * @param args The arbitrary argument to pass to the task.
+   * @param invokeOptions Customizes this particular invocation.
+   * @returns a promise that resolves when this particular invocation is
+   * completed or is canceled.
+   *
+   * @see [[TaskOptions.concurrency]]
    */
   @action
-  invoke(args: TArg): Promise<void> {
-    if (this._isPending) {
-      const invokeInstance = this._invokeInstance as InvokeInstance;
-      invokeInstance.cancel();
-    }
-    this._lastArg = { args };
-
-    const invokeInstance = (this._invokeInstance = new InvokeInstance());
-    const reportProgress = (progress: TProgress) => {
-      if (this._invokeInstance === invokeInstance) {
-        this._progress = progress;
-      }
-    };
+  invoke(args: TArg, invokeOptions?: TaskInvokeOptions): Promise<void> {
+    this.warnIfDisposed("invoke()");
+    const signal = invokeOptions && invokeOptions.signal;
+    if (signal && signal.aborted) return Promise.resolve();
 
-    let result: MaybePromise<TResult>;
+    const { concurrency = "switch", maxConcurrency = Infinity } =
+      this.options || {};
 
-    this._isPending = false;
-    this._progress = void 0;
-    const helpers: TaskHelpers<TProgress> = {
-      onCancel: invokeInstance.addCancelHandler,
-      get isCanceled() {
-        return invokeInstance.isCanceled;
-      },
-      reportProgress
-    };
+    if (this.isPending) {
+      if (concurrency === "drop") return this._promise as Promise<void>;
+      if (concurrency === "switch") {
+        this._running.forEach(invokeInstance => {
+          invokeInstance.isSuperseded = true;
+          invokeInstance.cancel();
+          this._record(invokeInstance, "superseded");
+        });
+        this._running = [];
+      }
+    }
+    this._lastArg = { args };
+    this._serveFromCache(args);
 
-    result = (this.action || 0)(args, helpers);
-
-    if (result instanceof Promise) {
-      this._isPending = true;
-      return (this._promise = Promise.race([
-        invokeInstance.killerPromise,
-        result
-      ]).then(
-        action((result: TResult | typeof $canceled) => {
-          if (result === $canceled || invokeInstance.isCanceled) {
-            if (this._invokeInstance === invokeInstance) {
-              this._isPending = false;
-            }
-          } else {
-            this._settle(invokeInstance, result);
-          }
-        })
-      ));
+    const invokeInstance = new InvokeInstance<TArg, TProgress>(
+      args,
+      this.options && this.options.initialProgress
+    );
+    const limit = concurrency === "queue" ? 1 : maxConcurrency;
+    if (
+      (concurrency === "queue" || concurrency === "parallel") &&
+      this._running.length >= limit
+    ) {
+      this._queue = [...this._queue, invokeInstance];
     } else {
-      this._settle(invokeInstance, result);
-      return (this._promise = Promise.resolve());
+      this._run(invokeInstance);
     }
+    this._updatePendingState();
+
+    if (signal) {
+      const abort = () => this._cancelInvocation(invokeInstance);
+      signal.addEventListener("abort", abort);
+      invokeInstance.promise.then(() =>
+        signal.removeEventListener("abort", abort)
+      );
+    }
+    return invokeInstance.promise;
   }
 
   @action reinvoke(required: boolean): Promise<void> {
@@ -170,18 +363,104 @@ export default class Task<
   }
 
   /**
-   * Cancels the pending task. If there isn't one, this call is no-op.
+   * Cancels the pending task, including any queued invocation. If there isn't
+   * one, this call is no-op.
    */
   @action
   cancel() {
-    this._invokeInstance && this._invokeInstance.cancel();
+    const queue = this._queue;
+    this._queue = [];
+    queue.forEach(invokeInstance => invokeInstance.cancel());
+    this._running.forEach(invokeInstance =>
+      this._cancelInvocation(invokeInstance)
+    );
+    this._updatePendingState();
+  }
+
+  /**
+   * Removes results from the cache, so that the next invocation with the same
+   * argument waits for the action again. If the current [[result]] is removed,
+   * it is kept but marked as stale.
+   * @param args If given, only the result for this argument is removed.
+   * Otherwise the whole cache is cleared.
+   *
+   * @see [[TaskOptions.cache]]
+   */
+  @action
+  invalidate(args?: TArg) {
+    if (arguments.length === 0) {
+      this._cache = [];
+      this._isStale = this._resultKey !== null;
+      return;
+    }
+    const key = this._getCacheKey(args!);
+    this._cache = this._cache.filter(entry => !deepEqual(entry.key, key));
+    if (this._resultKey && deepEqual(this._resultKey.key, key))
+      this._isStale = true;
+  }
+
+  /**
+   * Starts re-invoking the task periodically with the given argument. By
+   * default, a poll is skipped while the task is still pending.
+   * @param args The argument to invoke the task with on every poll.
+   * @param options Customizes the polling.
+   * @returns the started poller, which can be paused, resumed and stopped.
+   * Disposing the task also disposes the poller.
+   */
+  @action
+  poll(args: TArg, options: PollingOptions) {
+    const poller = new Poller(
+      () => this.invoke(args),
+      options,
+      () => this.isPending
+    );
+    this._pollers = [
+      ...this._pollers.filter(poller => !poller.isDisposed),
+      poller
+    ];
+    poller.start();
+    return poller;
+  }
+
+  /**
+   * Allows specialized tasks to hold an invocation back before its action
+   * runs, e.g. until the user confirms it. This is called once per invocation,
+   * before the first attempt. If it returns a promise, the action runs once
+   * the promise resolves, and the invocation fails if the promise rejects.
+   *
+   * The default implementation does not hold any invocation back.
+   * @param args The argument that the task was invoked with.
+   * @param helpers The invocation's helpers, which can also cancel the
+   * invocation.
+   */
+  protected gate(
+    args: TArg,
+    helpers: TaskGateHelpers<TProgress>
+  ): MaybePromise<void> {
+    return;
+  }
+
+  /**
+   * Disposes the task. The pending task, if any, is canceled, and the task's
+   * pollers are disposed.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._pollers.forEach(poller => poller.dispose());
+    this.cancel();
+    this._setPendingVisible(false);
+    super.dispose();
   }
 
   @observable.ref
   private _promise: Promise<void> | null = null;
 
-  @observable
-  private _isPending = false;
+  @observable.ref
+  private _running: InvokeInstance<TArg, TProgress>[] = [];
+
+  @observable.ref
+  private _queue: InvokeInstance<TArg, TProgress>[] = [];
 
   @observable.ref
   private _result: TResult | void = void 0;
@@ -190,21 +469,417 @@ export default class Task<
   private _lastArg: { args: TArg } | void = void 0;
 
   @observable.ref
-  private _progress?: TProgress;
+  private _error: any = void 0;
+
+  @observable.ref
+  private _outcome: TaskOutcome | null = null;
 
-  private _invokeInstance: InvokeInstance | null = null;
+  @observable.ref
+  private _lastSettledAt: number | null = null;
+
+  @observable
+  private _isStale = false;
+
+  /**
+   * The cache key of the argument that produced the current result, if any.
+   */
+  private _resultKey: { key: any } | null = null;
+
+  private _cache: TaskCacheEntry<TResult>[] = [];
+
+  @observable.ref
+  private _history: TaskInvocationRecord<TArg, TProgress>[] = [];
+
+  @observable
+  private _isPendingVisible = false;
+  private _pendingVisibleSince = 0;
+  private _pendingIndicatorTimer: any = null;
+  private _pollers: Poller[] = [];
+
+  @action
+  private _cancelInvocation(invokeInstance: InvokeInstance<TArg, TProgress>) {
+    if (
+      this._running.indexOf(invokeInstance) < 0 &&
+      this._queue.indexOf(invokeInstance) < 0
+    )
+      return;
+    invokeInstance.cancel();
+    this._finish(invokeInstance, "canceled");
+  }
+
+  @action
+  private _run(invokeInstance: InvokeInstance<TArg, TProgress>) {
+    const clock = (this.options && this.options.clock) || defaultClock;
+    invokeInstance.startedAt = clock.now();
+    this._running = [...this._running, invokeInstance];
+
+    let gate: MaybePromise<void>;
+    try {
+      gate = this.gate(invokeInstance.args, {
+        onCancel: invokeInstance.addCancelHandler,
+        get isCanceled() {
+          return invokeInstance.isCanceled;
+        },
+        get signal() {
+          return invokeInstance.signal;
+        },
+        reportProgress: action((progress: TProgress) => {
+          invokeInstance.progress = progress;
+        }),
+        cancel: () => this._cancelInvocation(invokeInstance)
+      });
+    } catch (error) {
+      this._fail(invokeInstance, error);
+      return;
+    }
+
+    if (gate instanceof Promise) {
+      gate.then(
+        action(() => {
+          invokeInstance.isCanceled || this._attempt(invokeInstance);
+        }),
+        action((error: any) => {
+          invokeInstance.isCanceled || this._fail(invokeInstance, error);
+        })
+      );
+    } else {
+      this._attempt(invokeInstance);
+    }
+  }
+
+  /**
+   * Runs one attempt of an invocation. Each attempt gets its own cancel scope
+   * so that a timed out attempt can be canceled without canceling the whole
+   * invocation.
+   */
+  @action
+  private _attempt(invokeInstance: InvokeInstance<TArg, TProgress>) {
+    const { timeout = 0, clock = defaultClock, dedup = null } =
+      this.options || {};
+    const attemptInstance = new InvokeInstance(invokeInstance.args);
+    invokeInstance.addCancelHandler(() => attemptInstance.cancel());
+    invokeInstance.attempt++;
+    invokeInstance.nextRetryAt = null;
+
+    const helpers: TaskHelpers<TProgress> = {
+      onCancel: attemptInstance.addCancelHandler,
+      get isCanceled() {
+        return attemptInstance.isCanceled;
+      },
+      get signal() {
+        return attemptInstance.signal;
+      },
+      reportProgress: action((progress: TProgress) => {
+        invokeInstance.progress = progress;
+      })
+    };
+
+    let result: MaybePromise<TResult>;
+    try {
+      const action = this.action || 0;
+      const { args } = invokeInstance;
+      result = dedup
+        ? (dedup.registry || defaultDedupRegistry).run(
+            dedup.key(args),
+            workHelpers => action(args, workHelpers),
+            helpers
+          )
+        : action(args, helpers);
+    } catch (error) {
+      attemptInstance.settle();
+      this._handleFailure(invokeInstance, error);
+      return;
+    }
+
+    if (!(result instanceof Promise)) {
+      attemptInstance.settle();
+      this._settle(invokeInstance, result);
+      return;
+    }
+
+    const timer =
+      timeout > 0 &&
+      clock.setTimeout(() => attemptInstance.cancel(), timeout);
+    const clearTimer = () => timer && clock.clearTimeout(timer);
+    Promise.race([attemptInstance.killerPromise, result]).then(
+      action((result: TResult | typeof $canceled) => {
+        clearTimer();
+        if (invokeInstance.isCanceled) return;
+        if (result === $canceled || attemptInstance.isCanceled) {
+          this._handleFailure(invokeInstance, new TaskTimeoutError(timeout));
+        } else {
+          attemptInstance.settle();
+          this._settle(invokeInstance, result);
+        }
+      }),
+      action((error: any) => {
+        clearTimer();
+        if (invokeInstance.isCanceled) return;
+        attemptInstance.settle();
+        this._handleFailure(
+          invokeInstance,
+          attemptInstance.isCanceled ? new TaskTimeoutError(timeout) : error
+        );
+      })
+    );
+  }
+
+  /**
+   * Decides whether a failed attempt should be retried, and either schedules
+   * the retry or fails the invocation.
+   */
+  @action
+  private _handleFailure(
+    invokeInstance: InvokeInstance<TArg, TProgress>,
+    error: any
+  ) {
+    const { retry = null, clock = defaultClock } = this.options || {};
+    const { attempt } = invokeInstance;
+    if (
+      !retry ||
+      attempt >= retry.attempts ||
+      (retry.retryIf && !retry.retryIf(error, attempt))
+    ) {
+      this._fail(invokeInstance, error);
+      return;
+    }
+
+    const delay = getRetryDelay(retry, attempt);
+    invokeInstance.nextRetryAt = clock.now() + delay;
+    const timer = clock.setTimeout(
+      () => this._attempt(invokeInstance),
+      delay
+    );
+    invokeInstance.addCancelHandler(() => clock.clearTimeout(timer));
+  }
 
   @action
   private _settle(invokeInstance: InvokeInstance, result: TResult) {
     invokeInstance.settle();
-    this._isPending = false;
     this._result = result;
-    this._promise = null;
-    this._invokeInstance = null;
-    this._progress = void 0;
+    this._isStale = false;
+    this._storeInCache(invokeInstance.args, result);
+    this._finish(invokeInstance, "success");
+  }
+
+  /**
+   * Settles a failed invocation. If the invocation was revalidating a stale
+   * result of the same argument, that result is kept and stays stale.
+   */
+  @action
+  private _fail(invokeInstance: InvokeInstance<TArg, TProgress>, error: any) {
+    invokeInstance.settle();
+    const resultKey = this._resultKey;
+    if (
+      !this._isStale ||
+      !resultKey ||
+      !deepEqual(resultKey.key, this._getCacheKey(invokeInstance.args))
+    ) {
+      this._result = void 0;
+      this._resultKey = null;
+      this._isStale = false;
+    }
+    this._finish(invokeInstance, "error", error);
+  }
+
+  /**
+   * Shows the cached result for the argument, if there is a fresh one, while
+   * the invocation revalidates it.
+   */
+  @action
+  private _serveFromCache(args: TArg) {
+    const cache = this.options && this.options.cache;
+    if (!cache) return;
+
+    const { ttl = Infinity } = cache;
+    const now = (this.options!.clock || defaultClock).now();
+    this._cache = this._cache.filter(entry => now - entry.storedAt < ttl);
+
+    const key = this._getCacheKey(args);
+    const entry = this._cache.find(entry => deepEqual(entry.key, key));
+    if (!entry) return;
+    this._result = entry.result;
+    this._resultKey = { key };
+    this._outcome = "success";
+    this._error = void 0;
+    this._isStale = true;
+  }
+
+  /**
+   * Stores the result of a successful invocation in the cache, evicting the
+   * least recently stored entries over the limit.
+   */
+  private _storeInCache(args: TArg, result: TResult) {
+    const cache = this.options && this.options.cache;
+    const key = this._getCacheKey(args);
+    this._resultKey = { key };
+    if (!cache) return;
+
+    const { maxEntries = 100 } = cache;
+    const clock = this.options!.clock || defaultClock;
+    this._cache = [
+      ...this._cache.filter(entry => !deepEqual(entry.key, key)),
+      { key, result, storedAt: clock.now() }
+    ].slice(-maxEntries);
+  }
+
+  private _getCacheKey(args: TArg) {
+    const cache = this.options && this.options.cache;
+    return cache && cache.key ? cache.key(args) : args;
   }
+
+  /**
+   * Removes a settled or canceled invocation from the task's bookkeeping,
+   * records its outcome, and starts the next queued invocation if any.
+   */
+  @action
+  private _finish(
+    invokeInstance: InvokeInstance,
+    outcome: TaskOutcome,
+    error?: any
+  ) {
+    this._running = this._running.filter(item => item !== invokeInstance);
+    this._queue = this._queue.filter(item => item !== invokeInstance);
+    this._outcome = outcome;
+    this._error = error;
+    this._lastSettledAt = (
+      (this.options && this.options.clock) ||
+      defaultClock
+    ).now();
+    this._record(invokeInstance, outcome);
+
+    const { concurrency = "switch", maxConcurrency = Infinity } =
+      this.options || {};
+    const limit = concurrency === "queue" ? 1 : maxConcurrency;
+    while (this._queue.length && this._running.length < limit) {
+      const [next, ...rest] = this._queue;
+      this._queue = rest;
+      this._run(next);
+    }
+    this._updatePendingState();
+  }
+
+  /**
+   * Adds an ended invocation to the history, if the history is enabled and the
+   * invocation has started running.
+   */
+  @action
+  private _record(
+    invokeInstance: InvokeInstance<TArg, TProgress>,
+    outcome: TaskInvocationOutcome
+  ) {
+    const { history = 0, clock = defaultClock } = this.options || {};
+    const { startedAt } = invokeInstance;
+    if (!history || startedAt === null) return;
+
+    const endedAt = clock.now();
+    this._history = [
+      ...this._history,
+      {
+        args: invokeInstance.args,
+        startedAt,
+        endedAt,
+        duration: endedAt - startedAt,
+        outcome,
+        progress: invokeInstance.progress
+      }
+    ].slice(-history);
+  }
+
+  @action
+  private _updatePendingState() {
+    const invokeInstances = [...this._running, ...this._queue];
+    this._promise = invokeInstances.length
+      ? Promise.all(invokeInstances.map(item => item.promise)).then(noop)
+      : null;
+    this._updatePendingIndicator();
+  }
+
+  /**
+   * Schedules the pending indicator to show after the delay when the task
+   * becomes pending, and to hide after the minimum duration when the task is
+   * no longer pending.
+   */
+  private _updatePendingIndicator() {
+    const { pendingIndicator = null, clock = defaultClock } =
+      this.options || {};
+    if (!pendingIndicator) return;
+
+    const { delay = 0, minDuration = 0 } = pendingIndicator;
+    const isPending = this.isPending;
+    const isVisible = this._isPendingVisible;
+    const hasTimer = this._pendingIndicatorTimer !== null;
+    if (isPending === isVisible) {
+      hasTimer && this._setPendingVisible(isVisible);
+    } else if (isPending) {
+      if (hasTimer) return;
+      delay > 0
+        ? (this._pendingIndicatorTimer = clock.setTimeout(
+            () => this._setPendingVisible(true),
+            delay
+          ))
+        : this._setPendingVisible(true);
+    } else {
+      if (hasTimer) return;
+      const remaining = this._pendingVisibleSince + minDuration - clock.now();
+      remaining > 0
+        ? (this._pendingIndicatorTimer = clock.setTimeout(
+            () => this._setPendingVisible(false),
+            remaining
+          ))
+        : this._setPendingVisible(false);
+    }
+  }
+
+  @action
+  private _setPendingVisible(isVisible: boolean) {
+    const clock = (this.options && this.options.clock) || defaultClock;
+    if (this._pendingIndicatorTimer !== null) {
+      clock.clearTimeout(this._pendingIndicatorTimer);
+      this._pendingIndicatorTimer = null;
+    }
+    if (isVisible && !this._isPendingVisible) {
+      this._pendingVisibleSince = clock.now();
+    }
+    this._isPendingVisible = isVisible;
+  }
+}
+
+function noop() {}
+
+/**
+ * Computes how long to wait before the next attempt, using exponential backoff
+ * with optional jitter.
+ * @param retry The task's retry options.
+ * @param attempt The number of the attempt that just failed.
+ */
+function getRetryDelay(retry: TaskRetryOptions, attempt: number) {
+  const { delay = 1000, factor = 2, maxDelay = Infinity, jitter = 0 } = retry;
+  const backoff = Math.min(delay * Math.pow(factor, attempt - 1), maxDelay);
+  return backoff * (1 - jitter * Math.random());
 }
 
+/**
+ * The error that a task attempt fails with when it does not complete within
+ * the task's timeout.
+ *
+ * @see [[TaskOptions.timeout]]
+ */
+export class TaskTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`The task did not complete within ${timeout}ms.`);
+    Object.setPrototypeOf(this, TaskTimeoutError.prototype);
+  }
+}
+
+/**
+ * Describes how a task ended.
+ * - `success`: the task's action returned or resolved a result.
+ * - `error`: the task's action threw or its promise rejected.
+ * - `canceled`: the task was canceled before it completed.
+ */
+export type TaskOutcome = "success" | "error" | "canceled";
+
 /**
  * Describes a function where you can register a cancel handler.
  * @param handler The handler function to be called when a task is canceled.
@@ -225,9 +900,39 @@ export type TaskAction<TArg, TResult, TProgress> = (
 export interface TaskHelpers<TProgress> {
   onCancel: AddCancelHandler;
   isCanceled: boolean;
+
+  /**
+   * An abort signal that aborts when this particular instance of the task gets
+   * canceled (or times out). Pass this to e.g. `fetch` to cancel the request.
+   */
+  readonly signal: AbortSignal;
+
   reportProgress: (progress: TProgress) => void;
 }
 
+/**
+ * Describes the helpers given to [[Task.gate]]. In addition to the usual task
+ * helpers, these can cancel the invocation.
+ */
+export interface TaskGateHelpers<TProgress> extends TaskHelpers<TProgress> {
+  /**
+   * Cancels the invocation that is being held back.
+   */
+  cancel(): void;
+}
+
+/**
+ * Customizes a particular invocation of a task.
+ */
+export interface TaskInvokeOptions {
+  /**
+   * If given, aborting this signal cancels the invocation. Use this to let
+   * the cancellation of a parent task flow down to a child task, e.g. by
+   * passing the parent's [[TaskHelpers.signal]].
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Infers the argument type from a task state type.
  * @ignore
@@ -240,6 +945,90 @@ export type InferTaskArg<T extends Task<any, any, any>> = T extends Task<
   ? TArg
   : never;
 
+/**
+ * Describes how a recorded invocation ended. In addition to the
+ * [[TaskOutcome]]s, an invocation may be `superseded`, i.e. canceled because
+ * the task was invoked again.
+ */
+export type TaskInvocationOutcome = TaskOutcome | "superseded";
+
+/**
+ * Describes a recorded invocation of a task.
+ * @see [[Task.history]]
+ */
+export interface TaskInvocationRecord<TArg, TProgress> {
+  /**
+   * The argument that the task was invoked with.
+   */
+  args: TArg;
+
+  /**
+   * The timestamp (according to the task's clock) of when the invocation
+   * started running.
+   */
+  startedAt: number;
+
+  /**
+   * The timestamp (according to the task's clock) of when the invocation
+   * ended.
+   */
+  endedAt: number;
+
+  /**
+   * The number of milliseconds that the invocation ran for.
+   */
+  duration: number;
+
+  /**
+   * How the invocation ended.
+   */
+  outcome: TaskInvocationOutcome;
+
+  /**
+   * The last progress that the invocation reported.
+   */
+  progress?: TProgress;
+}
+
+/**
+ * Describes aggregate statistics over a task's recorded invocations. The
+ * values other than `count` are null if there are no recorded invocations.
+ * @see [[Task.historyStats]]
+ */
+export interface TaskHistoryStats {
+  /**
+   * The number of recorded invocations.
+   */
+  count: number;
+
+  /**
+   * The mean duration of the recorded invocations in milliseconds.
+   */
+  meanDuration: number | null;
+
+  /**
+   * The 95th percentile duration of the recorded invocations in milliseconds.
+   */
+  p95Duration: number | null;
+
+  /**
+   * The fraction of the recorded invocations that were canceled or
+   * superseded.
+   */
+  cancelRate: number | null;
+}
+
+/**
+ * Describes what happens when a task is invoked while it is still pending.
+ * - `switch`: the pending task is canceled and the new one runs.
+ * - `drop`: the new invocation is ignored.
+ * - `queue`: the new invocation waits until all previous ones are complete.
+ * - `parallel`: the new invocation runs alongside the pending ones, up to the
+ *   limit given by [[TaskOptions.maxConcurrency]]. Invocations over the limit
+ *   are queued.
+ */
+export type TaskConcurrency = "switch" | "drop" | "queue" | "parallel";
+
 /**
  * Specifies customization of a task state.
  */
@@ -250,4 +1039,174 @@ export interface TaskOptions<TProgress> extends StateDevOptions {
    * inferring the progress value type from this value.
    */
   initialProgress?: TProgress;
+
+  /**
+   * Specifies what happens when the task is invoked while it is still pending.
+   * Defaults to `switch`.
+   * @see [[TaskConcurrency]]
+   */
+  concurrency?: TaskConcurrency;
+
+  /**
+   * Specifies the number of invocations that may run at the same time when
+   * the concurrency is `parallel`. Defaults to no limit.
+   */
+  maxConcurrency?: number;
+
+  /**
+   * If specified, a failed attempt (the action throwing, rejecting or timing
+   * out) is retried according to these options.
+   * @see [[TaskRetryOptions]]
+   */
+  retry?: TaskRetryOptions;
+
+  /**
+   * If specified, an attempt that does not complete within this many
+   * milliseconds is canceled (calling the handlers registered with
+   * [[TaskHelpers.onCancel]]) and fails with a [[TaskTimeoutError]].
+   */
+  timeout?: number;
+
+  /**
+   * Specifies the clock used for timeouts, retry backoff, pending indicators
+   * and timestamps. Defaults to the global timers.
+   */
+  clock?: Clock;
+
+  /**
+   * If specified, [[Task.isPendingVisible]] is delayed and held according to
+   * these options.
+   */
+  pendingIndicator?: PendingIndicatorOptions;
+
+  /**
+   * If specified, the task records this many of its most recent invocations
+   * in [[Task.history]]. Defaults to 0, i.e. no history.
+   */
+  history?: number;
+
+  /**
+   * If specified, the results of successful invocations are cached by their
+   * argument. Invoking the task with an argument that has a cached result
+   * gives that result immediately (marked as [[Task.isStale]]) while the
+   * action still runs to revalidate it. If the revalidation fails, the
+   * cached result stays, still stale, alongside the error.
+   * @see [[TaskCacheOptions]]
+   */
+  cache?: TaskCacheOptions;
+
+  /**
+   * If specified, concurrent attempts with the same key share the same
+   * in-flight work, even across task instances.
+   * @see [[TaskDedupOptions]]
+   */
+  dedup?: TaskDedupOptions;
+}
+
+/**
+ * Specifies how a task shares in-flight work with other invocations.
+ * @see [[DedupRegistry]]
+ */
+export interface TaskDedupOptions {
+  /**
+   * Computes the key that identifies the work of an argument. Attempts with
+   * the same key (compared with [[deepEqual]]) share the work while it is in
+   * flight.
+   */
+  key: (args: any) => any;
+
+  /**
+   * The registry in which in-flight work is shared. Defaults to the
+   * [[defaultDedupRegistry]].
+   */
+  registry?: DedupRegistry;
+}
+
+/**
+ * Specifies how a task caches its results.
+ */
+export interface TaskCacheOptions {
+  /**
+   * Computes the cache key of an argument. Keys are compared with
+   * [[deepEqual]]. Defaults to the argument itself.
+   */
+  key?: (args: any) => any;
+
+  /**
+   * The number of milliseconds that a cached result may be served for.
+   * Defaults to no limit.
+   */
+  ttl?: number;
+
+  /**
+   * The maximum number of cached results. When exceeded, the least recently
+   * stored results are evicted. Defaults to 100.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Describes a cached result of a task.
+ */
+interface TaskCacheEntry<TResult> {
+  key: any;
+  result: TResult;
+  storedAt: number;
+}
+
+/**
+ * Specifies how a pending indicator avoids flickering for fast tasks.
+ */
+export interface PendingIndicatorOptions {
+  /**
+   * The number of milliseconds that the task must be pending before the
+   * indicator shows. Defaults to 0.
+   */
+  delay?: number;
+
+  /**
+   * The minimum number of milliseconds that the indicator stays shown once it
+   * has shown, even if the task is no longer pending. Defaults to 0.
+   */
+  minDuration?: number;
+}
+
+/**
+ * Specifies how a task retries failed attempts.
+ */
+export interface TaskRetryOptions {
+  /**
+   * The maximum number of attempts, including the first one.
+   */
+  attempts: number;
+
+  /**
+   * The number of milliseconds to wait before the first retry. Defaults to
+   * 1000.
+   */
+  delay?: number;
+
+  /**
+   * The factor by which the delay grows after each failed attempt. Defaults
+   * to 2.
+   */
+  factor?: number;
+
+  /**
+   * The upper limit of the delay in milliseconds. Defaults to no limit.
+   */
+  maxDelay?: number;
+
+  /**
+   * A number between 0 and 1 specifying how much of the delay is randomized
+   * away, so that many clients do not retry at the same time. Defaults to 0.
+   */
+  jitter?: number;
+
+  /**
+   * Decides whether an error should be retried. By default, every error is.
+   * @param error The error that the attempt failed with.
+   * @param attempt The number of the attempt that failed, starting from 1.
+   */
+  retryIf?: (error: any, attempt: number) => boolean;
 }
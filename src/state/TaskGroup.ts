@@ -0,0 +1,144 @@
+import { observable, action, computed } from "mobx";
+import State, { StateDevOptions } from "./State";
+import Task from "./Task";
+import Form from "./Form";
+import DataQuery from "./DataQuery";
+import Validator from "./Validator";
+import { MaybeConstant } from "../utils/types";
+
+/**
+ * Represents the aggregate state of several tasks, such as all of the tasks
+ * running on a screen. This answers "is anything busy here?" and lets you
+ * cancel everything at once, e.g. when the screen unmounts.
+ *
+ * Besides tasks, the group accepts forms, data queries, validators and other
+ * task groups, in which case their underlying tasks are used.
+ */
+export default class TaskGroup extends State {
+  /**
+   * Instantiates a task group.
+   * @param members The members of the group. This may be an array of members
+   * or a function returning such an array, which is re-evaluated whenever the
+   * observables it depends on change.
+   * @param options
+   */
+  constructor(
+    members: MaybeConstant<() => TaskGroupMember[]> = [],
+    options?: StateDevOptions
+  ) {
+    super(options);
+    this._members = members;
+  }
+
+  /**
+   * Adds a member to the group, in addition to those given in the constructor.
+   * @param member
+   */
+  @action
+  add(member: TaskGroupMember) {
+    if (this._addedMembers.indexOf(member) < 0) {
+      this._addedMembers = [...this._addedMembers, member];
+    }
+  }
+
+  /**
+   * Removes a member that was added with [[add]]. Members given in the
+   * constructor cannot be removed this way.
+   * @param member
+   */
+  @action
+  remove(member: TaskGroupMember) {
+    this._addedMembers = this._addedMembers.filter(item => item !== member);
+  }
+
+  /**
+   * Returns the members of the group, both those given in the constructor and
+   * those added with [[add]].
+   */
+  @computed
+  get members(): TaskGroupMember[] {
+    const members = this._members;
+    return [
+      ...(typeof members === "function" ? members() : members),
+      ...this._addedMembers
+    ];
+  }
+
+  /**
+   * Returns the underlying tasks of all members, without duplicates.
+   */
+  @computed
+  get tasks(): Task[] {
+    const result = new Set<Task>();
+    this.members.forEach(member =>
+      getMemberTasks(member).forEach(task => result.add(task))
+    );
+    return [...result];
+  }
+
+  /**
+   * Returns the tasks of the group that are pending.
+   */
+  @computed
+  get pendingTasks() {
+    return this.tasks.filter(task => task.isPending);
+  }
+
+  /**
+   * Returns true if any task of the group is pending.
+   */
+  get isAnyPending() {
+    return this.pendingTasks.length > 0;
+  }
+
+  /**
+   * Returns the combined progress of the pending tasks, which is the mean of
+   * the progress of those pending tasks that report their progress as a
+   * number. This is null if there is no such task.
+   */
+  @computed
+  get progress() {
+    const progresses = this.pendingTasks
+      .map(task => task.progress)
+      .filter(progress => typeof progress === "number") as number[];
+    return progresses.length
+      ? progresses.reduce((sum, progress) => sum + progress, 0) /
+          progresses.length
+      : null;
+  }
+
+  /**
+   * Cancels all pending tasks of the group.
+   */
+  @action
+  cancelAll() {
+    this.pendingTasks.forEach(task => task.cancel());
+  }
+
+  private _members: MaybeConstant<() => TaskGroupMember[]>;
+
+  @observable.ref
+  private _addedMembers: TaskGroupMember[] = [];
+}
+
+/**
+ * Describes what can be a member of a [[TaskGroup]].
+ */
+export type TaskGroupMember =
+  | Task<any, any, any>
+  | Form<any, any, any>
+  | DataQuery<any, any, any>
+  | Validator<any, any, any, any>
+  | TaskGroup;
+
+/**
+ * Extracts the underlying tasks of a task group member.
+ * @param member
+ */
+function getMemberTasks(member: TaskGroupMember): Task[] {
+  if (member instanceof Task) return [member];
+  if (member instanceof Form) return [member.submitTask];
+  if (member instanceof DataQuery) return [...member.tasks];
+  if (member instanceof Validator) return [member.validationTask];
+  return member.tasks;
+}
@@ -0,0 +1,202 @@
+import { reaction } from "mobx";
+import Task, { TaskAction, TaskHelpers, TaskOptions } from "./Task";
+
+/**
+ * Represents a task made of several stages that run one after another, such
+ * as uploading a file, then processing it, then polling for its completion.
+ * Each stage receives the result of the previous stage, and the result of the
+ * last stage is the result of the pipeline.
+ *
+ * The pipeline's progress tells which stage is running, the progress that the
+ * stage reported, and the overall progress. Canceling the pipeline cancels the
+ * running stage.
+ *
+ * @template TArg the argument type of the first stage
+ * @template TResult the result type of the last stage
+ * @see [[sequence]]
+ */
+export default class TaskPipeline<TArg = any, TResult = any> extends Task<
+  TArg,
+  TResult,
+  PipelineProgress
+> {
+  /**
+   * Instantiates a task pipeline.
+   * @param stages The stages of the pipeline, each being a task action or a
+   * task state.
+   * @param options
+   */
+  constructor(
+    readonly stages: PipelineStage<any, any, any>[],
+    options?: TaskOptions<PipelineProgress>
+  ) {
+    super(sequence(...stages), options);
+  }
+
+  /**
+   * Returns the index of the running stage. This is null if the pipeline is
+   * not pending.
+   */
+  get stage() {
+    const { progress } = this;
+    return this.isPending && progress ? progress.stage : null;
+  }
+}
+
+/**
+ * Composes several stages into a single task action that runs the stages one
+ * after another. Each stage receives the result of the previous stage; the
+ * first stage receives the argument of the composed action.
+ *
+ * The composed action reports its progress as a [[PipelineProgress]], so it
+ * can be used anywhere a task action can, e.g. as the action of a [[Form]] to
+ * get multi-stage progress in [[Form.submitActionProgress]].
+ *
+ * If a stage is a task state, it is invoked with the pipeline's abort signal so
+ * that canceling the pipeline also cancels the stage. If the stage task fails
+ * or is canceled by other means, the pipeline fails.
+ *
+ * @param stages
+ */
+export function sequence<A, R1, P1, R2, P2>(
+  stage1: PipelineStage<A, R1, P1>,
+  stage2: PipelineStage<R1, R2, P2>
+): TaskAction<A, R2, PipelineProgress<P1 | P2>>;
+export function sequence<A, R1, P1, R2, P2, R3, P3>(
+  stage1: PipelineStage<A, R1, P1>,
+  stage2: PipelineStage<R1, R2, P2>,
+  stage3: PipelineStage<R2, R3, P3>
+): TaskAction<A, R3, PipelineProgress<P1 | P2 | P3>>;
+export function sequence<A, R1, P1, R2, P2, R3, P3, R4, P4>(
+  stage1: PipelineStage<A, R1, P1>,
+  stage2: PipelineStage<R1, R2, P2>,
+  stage3: PipelineStage<R2, R3, P3>,
+  stage4: PipelineStage<R3, R4, P4>
+): TaskAction<A, R4, PipelineProgress<P1 | P2 | P3 | P4>>;
+export function sequence(
+  ...stages: PipelineStage<any, any, any>[]
+): TaskAction<any, any, PipelineProgress>;
+export function sequence(
+  ...stages: PipelineStage<any, any, any>[]
+): TaskAction<any, any, PipelineProgress> {
+  return async (arg, helpers) => {
+    let value = arg;
+    for (let stage = 0; stage < stages.length; stage++) {
+      if (helpers.isCanceled) return void 0;
+      const reportStageProgress = (stageProgress: any) =>
+        helpers.reportProgress({
+          stage,
+          stageProgress,
+          overall: getOverallProgress(stage, stageProgress, stages.length)
+        });
+      reportStageProgress(void 0);
+      value = await runStage(
+        stages[stage],
+        stage,
+        value,
+        helpers,
+        reportStageProgress
+      );
+    }
+    return value;
+  };
+}
+
+/**
+ * Runs a single stage of the pipeline.
+ * @param stage The stage's task action or task state.
+ * @param index The index of the stage.
+ * @param arg The result of the previous stage.
+ * @param helpers The pipeline's task helpers.
+ * @param reportStageProgress Reports the stage's progress as the pipeline's.
+ */
+async function runStage(
+  stage: PipelineStage<any, any, any>,
+  index: number,
+  arg: any,
+  helpers: TaskHelpers<PipelineProgress>,
+  reportStageProgress: (stageProgress: any) => void
+) {
+  if (!(stage instanceof Task)) {
+    return stage(arg, {
+      onCancel: helpers.onCancel,
+      get isCanceled() {
+        return helpers.isCanceled;
+      },
+      get signal() {
+        return helpers.signal;
+      },
+      reportProgress: reportStageProgress
+    });
+  }
+
+  const disposeReaction = reaction(
+    () => stage.progress,
+    progress => stage.isPending && reportStageProgress(progress),
+    { fireImmediately: true }
+  );
+  try {
+    await stage.invoke(arg, { signal: helpers.signal });
+  } finally {
+    disposeReaction();
+  }
+  if (helpers.isCanceled) return void 0;
+  if (stage.isError) throw stage.error;
+  if (stage.outcome === "canceled")
+    throw Error(`Stage ${index} of the pipeline was canceled.`);
+  return stage.result;
+}
+
+/**
+ * Computes the overall progress of a pipeline as a number between 0 and 1,
+ * considering every stage to be of equal weight. A stage's progress counts
+ * only if it is reported as a number between 0 and 1.
+ * @param stage The index of the running stage.
+ * @param stageProgress The progress reported by the running stage.
+ * @param stageCount The number of stages in the pipeline.
+ */
+function getOverallProgress(
+  stage: number,
+  stageProgress: any,
+  stageCount: number
+) {
+  const fraction =
+    typeof stageProgress === "number"
+      ? Math.min(Math.max(stageProgress, 0), 1)
+      : 0;
+  return (stage + fraction) / stageCount;
+}
+
+/**
+ * Describes a stage of a pipeline, which is either a task action or a task
+ * state.
+ * @template TArg the stage's argument type, i.e. the previous stage's result
+ * @template TResult the stage's result type
+ * @template TProgress the stage's progress readout type
+ */
+export type PipelineStage<TArg, TResult, TProgress> =
+  | TaskAction<TArg, TResult, TProgress>
+  | Task<TArg, TResult, TProgress>;
+
+/**
+ * Describes the progress of a pipeline.
+ * @template TStageProgress the progress readout type of the stages
+ */
+export interface PipelineProgress<TStageProgress = any> {
+  /**
+   * The index of the running stage.
+   */
+  stage: number;
+
+  /**
+   * The progress reported by the running stage, if any.
+   */
+  stageProgress?: TStageProgress;
+
+  /**
+   * The overall progress of the pipeline as a number between 0 and 1. Every
+   * stage weighs the same, and a stage's progress counts only if it reports
+   * its progress as a number between 0 and 1.
+   */
+  overall: number;
+}
@@ -0,0 +1,194 @@
+import { observable, action } from "mobx";
+import Task, { TaskAction, TaskOptions, TaskGateHelpers } from "./Task";
+import { defaultClock } from "../utils/clock";
+
+/**
+ * Represents a task whose invocations can be undone for a while before they
+ * actually run, such as deleting or archiving something with an "Undo"
+ * snackbar.
+ *
+ * Invoking the task first opens a commit window. During the window, the task
+ * is pending, [[isPendingCommit]] is true and [[undo]] cancels the invocation.
+ * The action runs when the window expires or when [[commitNow]] is called.
+ *
+ * Only one commit window is open at a time: invoking the task again commits
+ * the pending invocation right away. Unless specified otherwise, invocations
+ * run in parallel, so that a committed action is not canceled by the next
+ * invocation.
+ *
+ * @template TArg the task's argument type
+ * @template TResult the task's result type
+ * @template TProgress the task's progress readout type
+ */
+export default class UndoableTask<
+  TArg = any,
+  TResult = any,
+  TProgress = any
+> extends Task<TArg, TResult, TProgress> {
+  /**
+   * Instantiates the undoable task state with an action.
+   * @param action the task's action, which runs once the invocation is
+   * committed.
+   * @param options
+   */
+  constructor(
+    action: TaskAction<TArg, TResult, TProgress>,
+    options: UndoableTaskOptions<TProgress>
+  ) {
+    super(action, { concurrency: "parallel", ...options });
+  }
+
+  readonly options?: UndoableTaskOptions<TProgress>;
+
+  /**
+   * Returns true if an invocation is waiting to be committed.
+   */
+  get isPendingCommit() {
+    return this._window !== null;
+  }
+
+  /**
+   * Returns the argument of the invocation that is waiting to be committed.
+   * This is undefined if there is no such invocation.
+   */
+  get pendingCommitArgs() {
+    return this._window ? this._window.args : void 0;
+  }
+
+  /**
+   * Returns the timestamp (according to the task's clock) of when the pending
+   * invocation will be committed. This is null if there is no such invocation.
+   */
+  get commitAt() {
+    return this._window ? this._window.commitAt : null;
+  }
+
+  /**
+   * Returns the number of milliseconds left until the pending invocation is
+   * committed, e.g. for a countdown. This updates every
+   * [[UndoableTaskOptions.countdownInterval]] milliseconds. It is zero if
+   * there is no pending invocation.
+   */
+  get remainingTime() {
+    const window = this._window;
+    return window ? Math.max(window.commitAt - this._now, 0) : 0;
+  }
+
+  /**
+   * Undoes the invocation that is waiting to be committed, so that its action
+   * never runs.
+   * @returns true if an invocation was undone, false if there was none.
+   */
+  @action
+  undo() {
+    const window = this._window;
+    if (!window) return false;
+    window.helpers.cancel();
+    return true;
+  }
+
+  /**
+   * Commits the invocation that is waiting to be committed, so that its action
+   * runs right away.
+   * @returns true if an invocation was committed, false if there was none.
+   */
+  @action
+  commitNow() {
+    const window = this._window;
+    if (!window) return false;
+    this._closeWindow();
+    window.commit();
+    return true;
+  }
+
+  /**
+   * Holds the invocation back until its commit window expires or it is
+   * committed with [[commitNow]].
+   */
+  @action
+  protected gate(args: TArg, helpers: TaskGateHelpers<TProgress>) {
+    this.commitNow();
+    const { delay, clock = defaultClock } = this.options!;
+    return new Promise<void>(resolve => {
+      const window: CommitWindow<TArg, TProgress> = {
+        args,
+        commitAt: clock.now() + delay,
+        helpers,
+        commit: resolve
+      };
+      helpers.onCancel(() => this._window === window && this._closeWindow());
+      this._openWindow(window);
+    });
+  }
+
+  @observable.ref
+  private _window: CommitWindow<TArg, TProgress> | null = null;
+
+  @observable
+  private _now = 0;
+
+  private _timer: any = null;
+
+  @action
+  private _openWindow(window: CommitWindow<TArg, TProgress>) {
+    this._window = window;
+    this._tick();
+  }
+
+  @action
+  private _closeWindow() {
+    const { clock = defaultClock } = this.options!;
+    clock.clearTimeout(this._timer);
+    this._timer = null;
+    this._window = null;
+  }
+
+  /**
+   * Updates the countdown, and commits the pending invocation once its window
+   * has expired.
+   */
+  @action
+  private _tick() {
+    const window = this._window;
+    if (!window) return;
+
+    const { clock = defaultClock, countdownInterval = 1000 } = this.options!;
+    this._now = clock.now();
+    const remaining = window.commitAt - this._now;
+    if (remaining <= 0) {
+      this.commitNow();
+      return;
+    }
+    this._timer = clock.setTimeout(
+      () => this._tick(),
+      Math.min(remaining, countdownInterval)
+    );
+  }
+}
+
+/**
+ * Describes an open commit window of an [[UndoableTask]].
+ */
+interface CommitWindow<TArg, TProgress> {
+  args: TArg;
+  commitAt: number;
+  helpers: TaskGateHelpers<TProgress>;
+  commit: () => void;
+}
+
+/**
+ * Specifies customization of an undoable task state.
+ */
+export interface UndoableTaskOptions<TProgress> extends TaskOptions<TProgress> {
+  /**
+   * The number of milliseconds that an invocation waits before it is
+   * committed, during which it can be undone.
+   */
+  delay: number;
+
+  /**
+   * The number of milliseconds between updates of
+   * [[UndoableTask.remainingTime]]. Defaults to 1000.
+   */
+  countdownInterval?: number;
+}
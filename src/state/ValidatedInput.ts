@@ -1,6 +1,6 @@
 import Validator, { ValidatorOptions } from "./Validator";
 import Input, { InputOptions } from "./Input";
-import { computed } from "mobx";
+import { computed, action } from "mobx";
 
 /**
  * A shorthand for an input with a single validator validating the input value.
@@ -69,6 +69,16 @@ export default class ValidatedInput<
   formatDomainValue(value: TDomainValue) {
     return this.validator.formatDomainValue(value);
   }
+
+  /**
+   * Disposes the validated input along with its validator.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this.validator.dispose();
+    super.dispose();
+  }
 }
 
 /**
@@ -1,5 +1,11 @@
 import { Falsy, MaybeConstant } from "../utils/types";
-import Task, { TaskAction } from "./Task";
+import Task, {
+  TaskAction,
+  TaskRetryOptions,
+  PendingIndicatorOptions,
+  TaskDedupOptions
+} from "./Task";
+import { Clock } from "../utils/clock";
 import { observable, action, reaction } from "mobx";
 import InputGroup, {
   InputGroupContent,
@@ -63,7 +69,7 @@ export default class Validator<
     > = {}
   ) {
     super(inputs, validatorOptions);
-    createLookup(
+    this._disposeValidatorLookup = createLookup(
       this,
       () => this.flattedInputs,
       input => privateInputValidators.get(input) as any
@@ -80,6 +86,7 @@ export default class Validator<
    */
   @action
   async validate() {
+    this.warnIfDisposed("validate()");
     if (this.parseResult.isError) return;
 
     const disposeReaction = reaction(
@@ -195,6 +202,8 @@ export default class Validator<
    * @see isConclusivelyValid
    */
   get domainResult(): DomainResult<TDomainValue, TDomainError> {
+    if (this._task.isError)
+      return { isError: true, isCrash: true, error: this._task.error };
     const result = this._task.result;
     if (!result) return { isError: false };
     return result.error
@@ -226,11 +235,13 @@ export default class Validator<
         correction: this.parseResult.correction
       };
     if (this.domainResult.isError)
-      return {
-        errorType: "domain",
-        error: this.domainResult.error,
-        correction: this.domainResult.correction
-      };
+      return this.domainResult.isCrash
+        ? { errorType: "crash", error: this.domainResult.error }
+        : {
+            errorType: "domain",
+            error: this.domainResult.error,
+            correction: this.domainResult.correction
+          };
     return null;
   }
 
@@ -268,6 +279,23 @@ export default class Validator<
     return Boolean(this._task.isPending);
   }
 
+  /**
+   * Returns the task state that represents the domain validation.
+   */
+  get validationTask() {
+    return this._task;
+  }
+
+  /**
+   * Returns true if a validation pending indicator should be shown for the
+   * validator. This follows [[isValidationPending]], but delayed and held
+   * according to [[ValidatorOptions.pendingIndicator]].
+   * @see [[Task.isPendingVisible]]
+   */
+  get isValidationPendingVisible() {
+    return this._task.isPendingVisible;
+  }
+
   /**
    * Returns true if the input can be taken to be conclusively valid. That is,
    * it is in all of these states:
@@ -358,10 +386,31 @@ export default class Validator<
     return [...result];
   }
 
+  /**
+   * Disposes the validator. Any pending domain validation is canceled and the
+   * inputs will no longer consider themselves validated by this validator.
+   */
+  @action
+  dispose() {
+    if (this.isDisposed) return;
+    this._task.dispose();
+    this._disposeValidatorLookup();
+    this.hoverState.dispose();
+    super.dispose();
+  }
+
+  private _disposeValidatorLookup: () => void;
+
   private _task = new Task<
     TDomainValue,
     Falsy | ValidationFailure<TDomainError, TDomainValue>
-  >(this.validatorOptions.domain || noopValidator);
+  >(this.validatorOptions.domain || noopValidator, {
+    retry: this.validatorOptions.retry,
+    timeout: this.validatorOptions.timeout,
+    clock: this.validatorOptions.clock,
+    pendingIndicator: this.validatorOptions.pendingIndicator,
+    dedup: this.validatorOptions.dedup
+  });
 
   readonly hoverState = new HoverState();
 }
@@ -481,6 +530,7 @@ export interface ParseFailure<TValue, TParseError> {
  */
 export type DomainResult<TDomainValue, TDomainError> =
   | DomainFailure<TDomainValue, TDomainError>
+  | DomainCrash
   | DomainSuccess;
 
 /**
@@ -502,6 +552,11 @@ export interface DomainFailure<TDomainValue, TDomainError> {
    */
   isError: true;
 
+  /**
+   * False for a failed validation, as opposed to a crashed one.
+   */
+  isCrash?: false;
+
   /**
    * Returns the domain validation error. This is the same as the value of the
    * "error" key in the domain validation function's return value.
@@ -518,11 +573,40 @@ export interface DomainFailure<TDomainValue, TDomainError> {
 }
 
 /**
- * Represents a validation error, both domain and parsing.
+ * Represents a domain validation that could not complete because the domain
+ * validation function threw or rejected.
+ */
+export interface DomainCrash {
+  /**
+   * True for a failed validation. False otherwise.
+   */
+  isError: true;
+
+  /**
+   * True for a crashed validation.
+   */
+  isCrash: true;
+
+  /**
+   * Returns the error that the domain validation function threw or rejected
+   * with.
+   */
+  error: any;
+
+  /**
+   * A crashed validation never has a correction.
+   */
+  correction?: void;
+}
+
+/**
+ * Represents a validation error, both domain and parsing, as well as a crashed
+ * domain validation.
  */
 export type ValidationError<TValue, TDomainValue, TParseError, TDomainError> =
   | ({ errorType: "parse" } & ValidationFailure<TParseError, TValue>)
-  | ({ errorType: "domain" } & ValidationFailure<TDomainError, TDomainValue>);
+  | ({ errorType: "domain" } & ValidationFailure<TDomainError, TDomainValue>)
+  | { errorType: "crash"; error: any };
 
 /**
  * Describes the settings of a validator.
@@ -606,4 +690,37 @@ export interface ValidatorOptions<
    * when a contributing input is confirmed.
    */
   validateOnInput?: boolean;
+
+  /**
+   * If specified, a failed domain validation is retried according to these
+   * options.
+   * @see [[TaskOptions.retry]]
+   */
+  retry?: TaskRetryOptions;
+
+  /**
+   * If specified, a domain validation attempt that does not complete within
+   * this many milliseconds is canceled and fails.
+   * @see [[TaskOptions.timeout]]
+   */
+  timeout?: number;
+
+  /**
+   * Specifies the clock used for timeouts, retry backoff and the pending
+   * indicator. Defaults to the global timers.
+   */
+  clock?: Clock;
+
+  /**
+   * If specified, [[Validator.isValidationPendingVisible]] is delayed and held
+   * according to these options.
+   */
+  pendingIndicator?: PendingIndicatorOptions;
+
+  /**
+   * If specified, concurrent domain validations with the same key share the
+   * same in-flight work, e.g. across validators checking the same username.
+   * @see [[TaskOptions.dedup]]
+   */
+  dedup?: TaskDedupOptions;
 }
@@ -0,0 +1,80 @@
+import { Task, ConfirmationTask } from "../..";
+import { flush, defer } from "./helpers";
+
+test("runs the action only once confirmed", async () => {
+  const action = jest.fn(async (arg: string) => arg);
+  const task = new ConfirmationTask(action);
+  const request = task.request("a");
+  expect(task.isAwaitingConfirmation).toBe(true);
+  expect(task.pendingArgs).toBe("a");
+  expect(task.isPending).toBe(true);
+  await flush();
+  expect(action).not.toHaveBeenCalled();
+
+  expect(task.confirm()).toBe(true);
+  await request;
+  expect(action).toHaveBeenCalledTimes(1);
+  expect(task.result).toBe("a");
+  expect(task.isAwaitingConfirmation).toBe(false);
+});
+
+test("dismiss cancels the request", async () => {
+  const action = jest.fn();
+  const task = new ConfirmationTask(action);
+  const request = task.request("a");
+  expect(task.dismiss()).toBe(true);
+  await request;
+  expect(action).not.toHaveBeenCalled();
+  expect(task.outcome).toBe("canceled");
+  expect(task.confirm()).toBe(false);
+});
+
+test("a new request does not cancel a confirmed action", async () => {
+  const log: string[] = [];
+  const deferred = defer<string>();
+  const task = new ConfirmationTask((arg: string, helpers) => {
+    log.push(`start ${arg}`);
+    helpers.onCancel(() => log.push(`cancel ${arg}`));
+    return deferred.promise;
+  });
+  const first = task.request("a");
+  task.confirm();
+  await flush();
+
+  task.request("b");
+  expect(task.pendingArgs).toBe("b");
+  task.dismiss();
+  deferred.resolve("result a");
+  await first;
+  expect(log).toEqual(["start a"]);
+  expect(task.result).toBe("result a");
+});
+
+test("a new request dismisses the one awaiting confirmation", async () => {
+  const task = new ConfirmationTask(async (arg: string) => arg);
+  const first = task.request("a");
+  task.request("b");
+  await first;
+  expect(task.pendingArgs).toBe("b");
+  task.confirm();
+  await flush();
+  expect(task.result).toBe("b");
+});
+
+test("wraps a task, forwarding its progress", async () => {
+  const deferred = defer<number>();
+  const inner = new Task((arg: number, helpers) => {
+    helpers.reportProgress(0.5);
+    return deferred.promise;
+  });
+  const task = new ConfirmationTask(inner);
+  task.request(1);
+  task.confirm();
+  await flush();
+  expect(inner.isPending).toBe(true);
+  expect(task.progress).toBe(0.5);
+
+  deferred.resolve(2);
+  await flush();
+  expect(task.result).toBe(2);
+});
@@ -0,0 +1,508 @@
+import { DataQuery, DataQueryDuplicatePolicy, FetchQuery, Task } from "../..";
+import { flush, defer, createFakeClock } from "./helpers";
+
+/**
+ * Creates a fetch function over numbered items, recording every fetch query.
+ */
+function createBackend(count = 25) {
+  const queries: FetchQuery<string>[] = [];
+  const fetch = jest.fn(async (q: FetchQuery<string>) => {
+    queries.push(q);
+    const start = q.cursor !== void 0 ? Number(q.cursor) : q.offset;
+    const items = Array.from(
+      { length: Math.max(Math.min(q.limit, count - start), 0) },
+      (_, index) => `${q.query}${start + index}`
+    );
+    const end = start + items.length;
+    return {
+      items,
+      total: count,
+      nextCursor: end < count ? String(end) : void 0
+    };
+  });
+  return { fetch, queries };
+}
+
+describe("cursor pagination", () => {
+  test("continues from the returned cursor", async () => {
+    const { fetch, queries } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      fetchLimit: 10,
+      pagination: "cursor"
+    });
+    await dataQuery.fetch("a");
+    await dataQuery.fetchMore();
+    expect(queries.map(q => q.cursor)).toEqual([void 0, "10"]);
+    expect(dataQuery.items.length).toBe(20);
+    expect(dataQuery.hasMoreItems).toBe(true);
+
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.length).toBe(25);
+    expect(dataQuery.hasMoreItems).toBe(false);
+    expect(dataQuery.totalItems).toBe(25);
+
+    await dataQuery.fetchMore();
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("sparse mode", () => {
+  function createSparseQuery(maxPages?: number) {
+    const backend = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch: backend.fetch,
+      fetchLimit: 10,
+      sparse: { maxPages }
+    });
+    return Object.assign({ dataQuery }, backend);
+  }
+
+  test("jumps to a page and extends the window", async () => {
+    const { dataQuery } = createSparseQuery();
+    await dataQuery.fetch("a", { page: 1 });
+    expect(dataQuery.windowOffset).toBe(10);
+    expect(dataQuery.items[0]).toBe("a10");
+    expect(dataQuery.hasPreviousItems).toBe(true);
+
+    await dataQuery.fetchPrevious();
+    await dataQuery.fetchMore();
+    expect(dataQuery.windowOffset).toBe(0);
+    expect(dataQuery.items.length).toBe(25);
+    expect(dataQuery.hasMoreItems).toBe(false);
+    expect(dataQuery.loadedRanges).toEqual([{ start: 0, end: 25 }]);
+  });
+
+  test("keeps separate ranges for pages that are not adjacent", async () => {
+    const { dataQuery } = createSparseQuery();
+    await dataQuery.fetch("a");
+    await dataQuery.fetchPage(2);
+    expect(dataQuery.loadedRanges).toEqual([
+      { start: 0, end: 10 },
+      { start: 20, end: 25 }
+    ]);
+    expect(dataQuery.windowOffset).toBe(20);
+    expect(dataQuery.items.length).toBe(5);
+    expect(dataQuery.totalItems).toBe(25);
+  });
+
+  test("evicts the pages farthest from the anchor", async () => {
+    const { dataQuery, fetch } = createSparseQuery(2);
+    await dataQuery.fetch("a");
+    await dataQuery.fetchPage(1);
+    await dataQuery.fetchPage(2);
+    expect(Array.from(dataQuery.pages.keys()).sort()).toEqual([1, 2]);
+
+    await dataQuery.fetchPage(2);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test("requires a fetch limit", () => {
+    expect(
+      () => new DataQuery({ fetch: async () => [], sparse: {} })
+    ).toThrow();
+  });
+});
+
+describe("query cache", () => {
+  test("restores a cached query without fetching", async () => {
+    const clock = createFakeClock();
+    const { fetch } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      fetchLimit: 10,
+      cache: { ttl: 1000 },
+      clock
+    });
+    await dataQuery.fetch("a");
+    await dataQuery.fetchMore();
+    await dataQuery.fetch("b");
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await dataQuery.fetch("a");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(dataQuery.items.length).toBe(20);
+    expect(dataQuery.activeQuery).toBe("a");
+
+    await dataQuery.fetch("a", { force: true });
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    clock.advance(1000);
+    await dataQuery.fetch("b");
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  test("evicts the least recently used queries", async () => {
+    const { fetch } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      cache: { maxEntries: 2 }
+    });
+    await dataQuery.fetch("a");
+    await dataQuery.fetch("b");
+    await dataQuery.fetch("a");
+    await dataQuery.fetch("c");
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await dataQuery.fetch("a");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await dataQuery.fetch("b");
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  test("refreshes a restored query in the background", async () => {
+    const { fetch } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      cache: { refresh: true }
+    });
+    await dataQuery.fetch("a");
+    await dataQuery.fetch("b");
+    const restore = dataQuery.fetch("a");
+    expect(dataQuery.isRefreshing).toBe(true);
+    await restore;
+    await flush();
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(dataQuery.isRefreshing).toBe(false);
+  });
+
+  test("restoring a query clears the error of a failed one", async () => {
+    const { fetch } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch: (q: FetchQuery<string>) =>
+        q.query === "bad" ? Promise.reject("boom") : fetch(q),
+      cache: {}
+    });
+    await dataQuery.fetch("abc");
+    await dataQuery.fetch("bad");
+    expect(dataQuery.isError).toBe(true);
+    expect(dataQuery.error).toBe("boom");
+
+    await dataQuery.fetch("abc");
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(dataQuery.isError).toBe(false);
+    expect(dataQuery.error).toBe(null);
+    expect(dataQuery.activeQuery).toBe("abc");
+  });
+
+  test("clear empties the cache", async () => {
+    const { fetch } = createBackend();
+    const dataQuery = new DataQuery<string, string>({ fetch, cache: {} });
+    await dataQuery.fetch("a");
+    dataQuery.clear();
+    await dataQuery.fetch("a");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("local item changes", () => {
+  interface Item {
+    id: number;
+    name: string;
+  }
+
+  function createItemQuery() {
+    return new DataQuery<null, Item>({
+      fetch: async () => ({
+        items: [{ id: 1, name: "one" }, { id: 2, name: "two" }],
+        total: 2
+      }),
+      itemKey: item => item.id
+    });
+  }
+
+  test("inserts, updates and removes items, adjusting the total", async () => {
+    const dataQuery = createItemQuery();
+    await dataQuery.fetch(null);
+    dataQuery.insertItem({ id: 3, name: "three" });
+    expect(dataQuery.items.map(item => item.id)).toEqual([3, 1, 2]);
+    expect(dataQuery.totalItems).toBe(3);
+
+    expect(dataQuery.updateItem(1, { name: "ONE" })).toBe(true);
+    expect(dataQuery.items[1]).toEqual({ id: 1, name: "ONE" });
+    expect(dataQuery.updateItem(9, { name: "nine" })).toBe(false);
+
+    expect(dataQuery.removeItem(2)).toBe(true);
+    expect(dataQuery.items.map(item => item.id)).toEqual([3, 1]);
+    expect(dataQuery.totalItems).toBe(2);
+    expect(dataQuery.removeItem(2)).toBe(false);
+  });
+
+  test("rolls back an optimistic update if the task fails", async () => {
+    const dataQuery = createItemQuery();
+    await dataQuery.fetch(null);
+    const deferred = defer();
+    const task = new Task(() => deferred.promise);
+    const update = dataQuery.optimisticUpdate(
+      () => dataQuery.removeItem(1),
+      task,
+      null
+    );
+    expect(dataQuery.items.length).toBe(1);
+    expect(dataQuery.totalItems).toBe(1);
+
+    deferred.reject(Error("failure"));
+    await update;
+    expect(dataQuery.items.length).toBe(2);
+    expect(dataQuery.totalItems).toBe(2);
+  });
+
+  test("keeps an optimistic update if the task succeeds", async () => {
+    const dataQuery = createItemQuery();
+    await dataQuery.fetch(null);
+    await dataQuery.optimisticUpdate(
+      () => dataQuery.removeItem(1),
+      new Task(async () => true),
+      null
+    );
+    expect(dataQuery.items.map(item => item.id)).toEqual([2]);
+  });
+});
+
+describe("refresh", () => {
+  function createVersionedBackend() {
+    let version = 0;
+    const deferreds: ReturnType<typeof defer>[] = [];
+    const fetch = jest.fn(async (q: FetchQuery<string>) => {
+      const current = version;
+      const deferred = defer();
+      deferreds.push(deferred);
+      await deferred.promise;
+      return {
+        items: Array.from(
+          { length: Math.min(q.limit, 25 - q.offset) },
+          (_, index) => `v${current}-${q.offset + index}`
+        ),
+        total: 25
+      };
+    });
+    return {
+      fetch,
+      deferreds,
+      bump: () => version++,
+      /**
+       * Resolves the pending fetches one by one until the promise settles.
+       */
+      async settle(promise: Promise<any>) {
+        let isSettled = false;
+        promise.then(() => (isSettled = true));
+        while (!isSettled) {
+          deferreds.forEach(deferred => deferred.resolve());
+          await flush();
+        }
+      }
+    };
+  }
+
+  test("re-fetches the loaded depth and swaps the items at once", async () => {
+    const backend = createVersionedBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch: backend.fetch,
+      fetchLimit: 10
+    });
+    await backend.settle(dataQuery.fetch("a"));
+    await backend.settle(dataQuery.fetchMore());
+    backend.bump();
+
+    const refresh = dataQuery.refresh();
+    expect(dataQuery.isRefreshing).toBe(true);
+    expect(dataQuery.isFetching).toBe(false);
+    expect(dataQuery.refreshProgress).toBe(0);
+
+    backend.deferreds[2].resolve();
+    await flush();
+    expect(dataQuery.refreshProgress).toBe(0.5);
+    expect(dataQuery.items[0]).toBe("v0-0");
+
+    await backend.settle(refresh);
+    expect(backend.fetch.mock.calls.map(([q]) => q.offset)).toEqual([
+      0,
+      10,
+      0,
+      10
+    ]);
+    expect(dataQuery.items.length).toBe(20);
+    expect(dataQuery.items[0]).toBe("v1-0");
+    expect(dataQuery.isRefreshing).toBe(false);
+    expect(dataQuery.refreshProgress).toBe(void 0);
+  });
+
+  test("a fetch cancels the refresh", async () => {
+    const backend = createVersionedBackend();
+    const dataQuery = new DataQuery<string, string>({ fetch: backend.fetch });
+    await backend.settle(dataQuery.fetch("a"));
+    backend.bump();
+    const refresh = dataQuery.refresh();
+    const fetch = dataQuery.fetch("b");
+    await backend.settle(Promise.all([refresh, fetch]));
+    expect(dataQuery.activeQuery).toBe("b");
+    expect(dataQuery.items[0]).toBe("v1-0");
+    expect(dataQuery.refreshTask.outcome).toBe("canceled");
+  });
+
+  test("re-fetches the loaded pages in sparse mode", async () => {
+    const backend = createVersionedBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch: backend.fetch,
+      fetchLimit: 10,
+      sparse: {}
+    });
+    await backend.settle(dataQuery.fetch("a"));
+    await backend.settle(dataQuery.fetchPage(2));
+    expect(dataQuery.windowOffset).toBe(20);
+    backend.bump();
+
+    const refresh = dataQuery.refresh();
+    expect(dataQuery.isRefreshing).toBe(true);
+    backend.deferreds[2].resolve();
+    await flush();
+    expect(dataQuery.refreshProgress).toBe(0.5);
+    expect(dataQuery.pages.get(0)!.items[0]).toBe("v0-0");
+
+    await backend.settle(refresh);
+    expect(dataQuery.windowOffset).toBe(20);
+    expect(dataQuery.items[0]).toBe("v1-20");
+    expect(dataQuery.pages.get(0)!.items[0]).toBe("v1-0");
+  });
+});
+
+describe("prefetch", () => {
+  test("fetches the next page in the background", async () => {
+    const { fetch, queries } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      fetchLimit: 10,
+      prefetch: true
+    });
+    await dataQuery.fetch("a");
+    expect(queries.map(q => q.offset)).toEqual([0, 10]);
+    expect(dataQuery.isFetching).toBe(false);
+    await flush();
+
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.length).toBe(20);
+    expect(queries.map(q => q.offset)).toEqual([0, 10, 20]);
+
+    await flush();
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.length).toBe(25);
+    expect(dataQuery.hasMoreItems).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test("discards the prefetched page on a new query", async () => {
+    const { fetch, queries } = createBackend();
+    const dataQuery = new DataQuery<string, string>({
+      fetch,
+      fetchLimit: 10,
+      prefetch: true
+    });
+    await dataQuery.fetch("a");
+    await dataQuery.fetch("b");
+    await dataQuery.fetchMore();
+    expect(dataQuery.items[10]).toBe("b10");
+    expect(queries.map(q => q.query + q.offset)).toEqual([
+      "a0",
+      "a10",
+      "b0",
+      "b10",
+      "b20"
+    ]);
+  });
+
+  test("falls back to fetching if the prefetch failed", async () => {
+    const { fetch, queries } = createBackend();
+    let calls = 0;
+    const dataQuery = new DataQuery<string, string>({
+      fetch: q =>
+        ++calls === 2 ? Promise.reject(Error("failure")) : fetch(q),
+      fetchLimit: 10,
+      prefetch: true
+    });
+    await dataQuery.fetch("a");
+    await flush();
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.length).toBe(20);
+    expect(dataQuery.isError).toBe(false);
+    expect(queries.map(q => q.offset)).toEqual([0, 10, 20]);
+  });
+});
+
+describe("duplicates", () => {
+  interface Item {
+    id: number;
+    offset: number;
+  }
+
+  /**
+   * Serves ids whose pages overlap, as if items shifted on the server.
+   */
+  function createDuplicateQuery(duplicates?: DataQueryDuplicatePolicy) {
+    const ids = [1, 2, 3, 3, 4, 2, 5];
+    const offsets: number[] = [];
+    const dataQuery = new DataQuery<null, Item>({
+      fetch: async ({ offset, limit }) => {
+        offsets.push(offset);
+        return {
+          items: ids
+            .slice(offset, offset + limit)
+            .map(id => ({ id, offset })),
+          total: ids.length
+        };
+      },
+      fetchLimit: 3,
+      itemKey: item => item.id,
+      duplicates
+    });
+    return { dataQuery, offsets };
+  }
+
+  test("skips duplicates and keeps the counts consistent", async () => {
+    const { dataQuery, offsets } = createDuplicateQuery("skip");
+    await dataQuery.fetch(null);
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.map(item => item.id)).toEqual([1, 2, 3, 4]);
+    expect(dataQuery.hasMoreItems).toBe(true);
+    expect(dataQuery.totalItems).toBe(5);
+
+    await dataQuery.fetchMore();
+    expect(offsets).toEqual([0, 3, 6]);
+    expect(dataQuery.items.map(item => item.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(dataQuery.hasMoreItems).toBe(false);
+    expect(dataQuery.totalItems).toBe(5);
+    expect(dataQuery.getItem(4)).toEqual({ id: 4, offset: 3 });
+    expect(dataQuery.getItem(9)).toBe(void 0);
+
+    await dataQuery.refresh();
+    expect(offsets.slice(3)).toEqual([0, 3, 6]);
+    expect(dataQuery.items.length).toBe(5);
+    expect(dataQuery.totalItems).toBe(5);
+  });
+
+  test("replaces duplicates in place", async () => {
+    const { dataQuery } = createDuplicateQuery("replace");
+    await dataQuery.fetch(null);
+    await dataQuery.fetchMore();
+    expect(dataQuery.items).toEqual([
+      { id: 1, offset: 0 },
+      { id: 2, offset: 3 },
+      { id: 3, offset: 3 },
+      { id: 4, offset: 3 }
+    ]);
+  });
+
+  test("moves duplicates to the end", async () => {
+    const { dataQuery } = createDuplicateQuery("move");
+    await dataQuery.fetch(null);
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.map(item => item.id)).toEqual([1, 3, 4, 2]);
+  });
+
+  test("keeps duplicates without a policy", async () => {
+    const { dataQuery } = createDuplicateQuery();
+    await dataQuery.fetch(null);
+    await dataQuery.fetchMore();
+    expect(dataQuery.items.length).toBe(6);
+    expect(dataQuery.totalItems).toBe(7);
+  });
+});
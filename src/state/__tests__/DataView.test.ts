@@ -0,0 +1,57 @@
+import { observable, autorun } from "mobx";
+import { DataView } from "../..";
+
+interface Item {
+  name: string;
+  category: string;
+  price: number;
+}
+
+const items: Item[] = [
+  { name: "pear", category: "fruit", price: 3 },
+  { name: "kale", category: "vegetable", price: 2 },
+  { name: "apple", category: "fruit", price: 1 },
+  { name: "leek", category: "vegetable", price: 3 }
+];
+
+test("filters, sorts and groups the items", () => {
+  const view = new DataView(items, {
+    filter: () => item => item.price > 1,
+    sort: () => (a, b) => a.price - b.price,
+    groupBy: () => item => item.category
+  });
+  expect(view.items.map(item => item.name)).toEqual(["kale", "pear", "leek"]);
+  expect(view.count).toBe(3);
+  expect(
+    view.groups.map(group => [group.key, group.items.map(item => item.name)])
+  ).toEqual([["vegetable", ["kale", "leek"]], ["fruit", ["pear"]]]);
+});
+
+test("recomputes when the criteria's observables change", () => {
+  const search = observable.box("");
+  const view = new DataView(items, {
+    filter: () => {
+      const text = search.get();
+      return text && (item => item.name.indexOf(text) >= 0);
+    }
+  });
+  expect(view.count).toBe(4);
+  search.set("ea");
+  expect(view.items.map(item => item.name)).toEqual(["pear"]);
+});
+
+test("only processes appended items while observed", () => {
+  const source = observable.array<Item>(items.slice(0, 2), { deep: false });
+  const filter = jest.fn((item: Item) => item.category === "fruit");
+  const view = new DataView(() => source.slice(), {
+    filter: () => filter,
+    sort: () => (a, b) => a.price - b.price
+  });
+  const dispose = autorun(() => view.items);
+  expect(filter).toHaveBeenCalledTimes(2);
+
+  source.push(items[2], items[3]);
+  expect(filter).toHaveBeenCalledTimes(4);
+  expect(view.items.map(item => item.name)).toEqual(["apple", "pear"]);
+  dispose();
+});
@@ -0,0 +1,75 @@
+import { Task, DedupRegistry } from "../..";
+import { flush, defer } from "./helpers";
+
+function createWork() {
+  const log: string[] = [];
+  const deferred = defer<string>();
+  const work = jest.fn(helpers => {
+    helpers.onCancel(() => log.push("cancel"));
+    helpers.reportProgress(0.5);
+    return deferred.promise;
+  });
+  return { log, deferred, work };
+}
+
+function createHelpers() {
+  const cancelHandlers: (() => void)[] = [];
+  const helpers = {
+    onCancel: (handler: () => void) => void cancelHandlers.push(handler),
+    isCanceled: false,
+    signal: new AbortController().signal,
+    reportProgress: jest.fn()
+  };
+  const cancel = () => cancelHandlers.forEach(handler => handler());
+  return { helpers, cancel };
+}
+
+test("shares in-flight work between runs with the same key", async () => {
+  const registry = new DedupRegistry();
+  const { deferred, work } = createWork();
+  const first = createHelpers();
+  const second = createHelpers();
+  const results = [
+    registry.run(["user", 1], work, first.helpers),
+    registry.run(["user", 1], work, second.helpers)
+  ];
+  expect(work).toHaveBeenCalledTimes(1);
+  expect(registry.isInFlight(["user", 1])).toBe(true);
+  expect(first.helpers.reportProgress).toHaveBeenCalledWith(0.5);
+
+  deferred.resolve("result");
+  expect(await Promise.all(results)).toEqual(["result", "result"]);
+  expect(registry.size).toBe(0);
+});
+
+test("cancels the work once every subscriber has canceled", () => {
+  const registry = new DedupRegistry();
+  const { log, work } = createWork();
+  const first = createHelpers();
+  const second = createHelpers();
+  registry.run("key", work, first.helpers);
+  registry.run("key", work, second.helpers);
+
+  first.cancel();
+  expect(log).toEqual([]);
+  second.cancel();
+  expect(log).toEqual(["cancel"]);
+  expect(registry.isInFlight("key")).toBe(false);
+});
+
+test("tasks with the same dedup key share the action", async () => {
+  const registry = new DedupRegistry();
+  const deferred = defer<boolean>();
+  const action = jest.fn((name: string) => deferred.promise);
+  const dedup = { key: (name: string) => ["taken", name], registry };
+  const first = new Task(action, { dedup });
+  const second = new Task(action, { dedup });
+  first.invoke("alice");
+  second.invoke("alice");
+  expect(action).toHaveBeenCalledTimes(1);
+
+  deferred.resolve(true);
+  await flush();
+  expect(first.result).toBe(true);
+  expect(second.result).toBe(true);
+});
@@ -0,0 +1,27 @@
+import { Form, Input, FormActionError } from "../..";
+
+describe("submit", () => {
+  test("submits the form's value through the action", async () => {
+    const title = new Input("title");
+    const action = jest.fn(async (value: { title: string }) => value.title);
+    const form = new Form({ title }, { action });
+
+    await form.submit();
+    expect(action.mock.calls[0][0]).toEqual({ title: "title" });
+    expect(form.submitResult).toEqual({ outcome: "submit", result: "title" });
+    expect(form.isSubmitting).toBe(false);
+  });
+
+  test("results in an action error if the action rejects", async () => {
+    const failure = Error("failure");
+    const form = new Form(new Input(""), {
+      action: () => Promise.reject(failure)
+    });
+
+    await form.submit();
+    const expected: FormActionError = { outcome: "error", error: failure };
+    expect(form.submitResult).toEqual(expected);
+    expect(form.submitTask.isError).toBe(true);
+    expect(form.isSubmitting).toBe(false);
+  });
+});
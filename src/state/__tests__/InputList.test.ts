@@ -0,0 +1,139 @@
+import { InputList, Input, Validator, Form } from "../..";
+import { flush } from "./helpers";
+
+function createList(initialValue?: string[]) {
+  return new InputList(() => new Input(""), { initialValue });
+}
+
+describe("item operations", () => {
+  test("pushes, inserts, removes, moves and replaces items", () => {
+    const list = createList(["a", "b"]);
+    const [a, b] = list.keys;
+    expect(list.value).toEqual(["a", "b"]);
+
+    const c = list.push("c");
+    const d = list.insert(0, "d");
+    list.insert(100, "e");
+    expect(list.value).toEqual(["d", "a", "b", "c", "e"]);
+    expect(list.indexOf(c)).toBe(3);
+    expect(list.get(d)!.value).toBe("d");
+
+    expect(list.remove(b)).toBe(true);
+    expect(list.remove(b)).toBe(false);
+    expect(list.get(b)).toBe(null);
+    expect(list.value).toEqual(["d", "a", "c", "e"]);
+
+    list.move(0, 2);
+    list.move(3, -1);
+    list.move(10, 0);
+    expect(list.value).toEqual(["e", "a", "c", "d"]);
+    expect(list.indexOf(a)).toBe(1);
+
+    list.replace(["x", "y"]);
+    expect(list.value).toEqual(["x", "y"]);
+    expect(list.length).toBe(2);
+    expect(list.keys.indexOf(a)).toBe(-1);
+  });
+
+  test("reset and confirm resize the list by position", () => {
+    const list = createList(["a", "b", "c"]);
+    const [a, b, c] = list.keys;
+    const inputA = list.get(a)!;
+
+    list.reset({ value: ["x", "y"] });
+    expect(list.keys).toEqual([a, b]);
+    expect(list.get(a)).toBe(inputA);
+    expect(list.value).toEqual(["x", "y"]);
+    expect(list.get(c)).toBe(null);
+
+    list.confirm({ value: ["p", "q", "r", "s"] });
+    expect(list.keys.slice(0, 2)).toEqual([a, b]);
+    expect(list.value).toEqual(["p", "q", "r", "s"]);
+    expect(list.items.every(item => item.content.isConfirmed)).toBe(true);
+
+    list.reset();
+    expect(list.length).toBe(4);
+    expect(list.items.some(item => item.content.isConfirmed)).toBe(false);
+  });
+
+  test("disposes the inputs of removed items", () => {
+    const list = createList(["a", "b", "c", "d"]);
+    const [a, b, c, d] = list.items.map(item => item.content);
+
+    list.remove(list.keys[0]);
+    expect(a.isDisposed).toBe(true);
+    list.reset({ value: ["x", "y"] });
+    expect(d.isDisposed).toBe(true);
+    expect(b.isDisposed).toBe(false);
+    list.move(0, 1);
+    expect(b.isDisposed).toBe(false);
+
+    list.replace(["z"]);
+    expect(b.isDisposed).toBe(true);
+    expect(c.isDisposed).toBe(true);
+
+    const [z] = list.items.map(item => item.content);
+    list.dispose();
+    expect(z.isDisposed).toBe(true);
+    expect(list.isDisposed).toBe(true);
+  });
+
+  test("keeps the validator and confirmed state of a moved item", async () => {
+    const validators = new Map<number, Validator<Input<string>>>();
+    const list = new InputList(key => {
+      const input = new Input("");
+      validators.set(
+        key,
+        new Validator(input, {
+          domain: async value =>
+            value.length < 3 ? { error: "too short" } : null
+        })
+      );
+      return input;
+    });
+    const first = list.push();
+    list.push();
+    list.push();
+
+    const input = list.get(first)!;
+    input.confirm({ value: "ab" });
+    await flush();
+    const validator = validators.get(first)!;
+    expect(validator.error).toEqual({
+      errorType: "domain",
+      error: "too short",
+      correction: void 0
+    });
+
+    list.move(0, 2);
+    expect(list.indexOf(first)).toBe(2);
+    expect(list.get(first)).toBe(input);
+    expect(input.isConfirmed).toBe(true);
+    expect(input.validators).toEqual([validator]);
+    expect(validator.error).not.toBe(null);
+  });
+});
+
+describe("nesting", () => {
+  test("tracks the items as part of a form", async () => {
+    const title = new Input("title");
+    const entries = createList(["a"]);
+    const action = jest.fn(async (value: any) => value);
+    const form = new Form(() => ({ title, entries }), { action });
+
+    const key = entries.push("b");
+    const input = entries.get(key)!;
+    expect(input.form).toBe(form);
+    expect(form.flattedInputs.length).toBe(3);
+
+    await form.submit();
+    expect(action.mock.calls[0][0]).toEqual({
+      title: "title",
+      entries: ["a", "b"]
+    });
+
+    entries.remove(key);
+    expect(input.forms).toEqual([]);
+    expect(form.value).toEqual({ title: "title", entries: ["a"] });
+  });
+});
@@ -0,0 +1,114 @@
+import { DataQuery, ListWindowState } from "../..";
+import { flush } from "./helpers";
+
+function createDataQuery(options: { sparse?: boolean } = {}) {
+  return new DataQuery<null, number>({
+    fetch: async ({ offset, limit }) => ({
+      items: Array.from(
+        { length: Math.min(limit, 100 - offset) },
+        (_, index) => offset + index
+      ),
+      total: 100
+    }),
+    fetchLimit: 20,
+    sparse: options.sparse ? {} : void 0
+  });
+}
+
+test("computes the visible and render ranges from the viewport", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch(null);
+  const listWindow = new ListWindowState(dataQuery, {
+    itemSize: 10,
+    overscan: 2,
+    autoFetch: false
+  });
+  listWindow.setViewport({ scrollTop: 55, height: 30 });
+  expect(listWindow.itemCount).toBe(100);
+  expect(listWindow.totalSize).toBe(1000);
+  expect(listWindow.visibleRange).toEqual({ start: 5, end: 9 });
+  expect(listWindow.renderRange).toEqual({ start: 3, end: 11 });
+  expect(listWindow.slots[0]).toEqual({
+    index: 3,
+    offset: 30,
+    size: 10,
+    isLoaded: true,
+    item: 3
+  });
+});
+
+test("supports item sizes that vary by index", () => {
+  const dataQuery = createDataQuery();
+  const listWindow = new ListWindowState(dataQuery, {
+    itemSize: index => (index % 2 ? 20 : 10),
+    autoFetch: false
+  });
+  dataQuery.insertItem(0);
+  dataQuery.insertItem(1, 1);
+  dataQuery.insertItem(2, 2);
+  expect(listWindow.getItemOffset(2)).toBe(30);
+  expect(listWindow.itemCount).toBe(4);
+  expect(listWindow.totalSize).toBe(60);
+
+  listWindow.setViewport({ scrollTop: 10, height: 20 });
+  expect(listWindow.visibleRange).toEqual({ start: 1, end: 2 });
+});
+
+test("fetches more items as the viewport nears the end", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch(null);
+  const listWindow = new ListWindowState(dataQuery, {
+    itemSize: 10,
+    overscan: 0,
+    fetchThreshold: 5
+  });
+  listWindow.setViewport({ scrollTop: 0, height: 100 });
+  await flush();
+  expect(dataQuery.items.length).toBe(20);
+
+  listWindow.setViewport({ scrollTop: 60, height: 100 });
+  await flush();
+  expect(dataQuery.items.length).toBe(40);
+  listWindow.dispose();
+});
+
+test("fetches the missing pages in sparse mode", async () => {
+  const dataQuery = createDataQuery({ sparse: true });
+  await dataQuery.fetch(null);
+  const listWindow = new ListWindowState(dataQuery, {
+    itemSize: 10,
+    overscan: 0
+  });
+  listWindow.setViewport({ scrollTop: 550, height: 100 });
+  await flush();
+  expect(Array.from(dataQuery.pages.keys()).sort()).toEqual([0, 2, 3]);
+  expect(listWindow.slots[0]).toMatchObject({ index: 55, item: 55 });
+  listWindow.dispose();
+});
+
+test("does not fetch again automatically after a failed fetch", async () => {
+  let fail = false;
+  const fetch = jest.fn(async ({ offset }: { offset: number }) =>
+    fail
+      ? false
+      : { items: Array.from({ length: 20 }, (_, index) => offset + index) }
+  );
+  const dataQuery = new DataQuery<null, number>({ fetch, fetchLimit: 20 });
+  await dataQuery.fetch(null);
+  const listWindow = new ListWindowState(dataQuery, { itemSize: 10 });
+  fail = true;
+  listWindow.setViewport({ scrollTop: 100, height: 100 });
+  await flush();
+  await flush();
+  expect(fetch).toHaveBeenCalledTimes(2);
+  expect(dataQuery.isError).toBe(true);
+
+  fail = false;
+  await dataQuery.fetchMore();
+  expect(dataQuery.items.length).toBe(40);
+  listWindow.setViewport({ scrollTop: 300, height: 100 });
+  await flush();
+  expect(fetch).toHaveBeenCalledTimes(4);
+  expect(dataQuery.items.length).toBe(60);
+  listWindow.dispose();
+});
@@ -0,0 +1,86 @@
+import { Task, Poller } from "../..";
+import { flush, defer, createFakeClock } from "./helpers";
+
+test("polls every interval until stopped", () => {
+  const clock = createFakeClock();
+  const poll = jest.fn();
+  const poller = new Poller(poll, { interval: 100, clock });
+  poller.start();
+  clock.advance(99);
+  expect(poll).toHaveBeenCalledTimes(0);
+  clock.advance(1);
+  expect(poll).toHaveBeenCalledTimes(1);
+  expect(poller.lastPolledAt).toBe(100);
+  clock.advance(200);
+  expect(poll).toHaveBeenCalledTimes(3);
+
+  poller.stop();
+  clock.advance(1000);
+  expect(poll).toHaveBeenCalledTimes(3);
+  expect(clock.timerCount).toBe(0);
+});
+
+test("resumes right away if the interval elapsed while paused", () => {
+  const clock = createFakeClock();
+  const poll = jest.fn();
+  const poller = new Poller(poll, { interval: 100, clock, immediate: true });
+  poller.start();
+  clock.advance(0);
+  expect(poll).toHaveBeenCalledTimes(1);
+
+  poller.pause();
+  clock.advance(500);
+  expect(poll).toHaveBeenCalledTimes(1);
+  poller.resume();
+  clock.advance(0);
+  expect(poll).toHaveBeenCalledTimes(2);
+});
+
+test("skips polls while the previous one is pending", async () => {
+  const clock = createFakeClock();
+  const deferred = defer();
+  const task = new Task(() => deferred.promise);
+  const invoke = jest.spyOn(task, "invoke");
+  task.poll(null, { interval: 100, clock });
+  clock.advance(100);
+  clock.advance(100);
+  expect(invoke).toHaveBeenCalledTimes(1);
+
+  deferred.resolve();
+  await flush();
+  clock.advance(100);
+  expect(invoke).toHaveBeenCalledTimes(2);
+  task.dispose();
+});
+
+test("pauses while the page is hidden", () => {
+  const clock = createFakeClock();
+  let isHidden = false;
+  let listener = () => {};
+  const visibility = {
+    isHidden: () => isHidden,
+    subscribe: (callback: () => void) => {
+      listener = callback;
+      return () => {};
+    }
+  };
+  const poll = jest.fn();
+  const poller = new Poller(poll, {
+    interval: 100,
+    clock,
+    pauseWhenHidden: true,
+    visibility
+  });
+  poller.start();
+  isHidden = true;
+  listener();
+  expect(poller.isHidden).toBe(true);
+  expect(poller.isActive).toBe(false);
+  clock.advance(300);
+  expect(poll).toHaveBeenCalledTimes(0);
+
+  isHidden = false;
+  listener();
+  clock.advance(0);
+  expect(poll).toHaveBeenCalledTimes(1);
+});
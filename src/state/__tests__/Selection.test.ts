@@ -0,0 +1,84 @@
+import { DataQuery, SelectionState } from "../..";
+
+function createDataQuery() {
+  return new DataQuery<string, string>({
+    fetch: async ({ query }) => ({
+      items: [1, 2, 3, 4, 5].map(index => `${query}${index}`),
+      total: 10
+    })
+  });
+}
+
+test("selects, deselects and toggles items", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch("a");
+  const selection = new SelectionState(dataQuery);
+  selection.select("a1");
+  selection.toggle("a2");
+  selection.toggle("a1");
+  expect(selection.selectedItems).toEqual(["a2"]);
+  expect(selection.selectedCount).toBe(1);
+  expect(selection.description).toEqual({ type: "keys", keys: ["a2"] });
+
+  selection.clear();
+  expect(selection.selectedCount).toBe(0);
+});
+
+test("selects a range from the anchor", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch("a");
+  const selection = new SelectionState(dataQuery);
+  selection.select("a2");
+  selection.selectRange("a4");
+  expect(selection.selectedItems).toEqual(["a2", "a3", "a4"]);
+  selection.selectRange("a1");
+  expect(selection.selectedItems).toEqual(["a1", "a2", "a3", "a4"]);
+});
+
+test("selects a single item in single mode", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch("a");
+  const selection = new SelectionState(dataQuery, { mode: "single" });
+  selection.select("a1");
+  selection.selectRange("a3");
+  expect(selection.selectedItems).toEqual(["a3"]);
+  selection.selectAllMatching();
+  expect(selection.isAllMatching).toBe(false);
+});
+
+test("selects all items matching the query", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch("a");
+  const selection = new SelectionState(dataQuery);
+  selection.selectAllMatching();
+  selection.deselect("a2");
+  expect(selection.isAllMatching).toBe(true);
+  expect(selection.selectedCount).toBe(9);
+  expect(selection.isSelected("a1")).toBe(true);
+  expect(selection.isSelected("a2")).toBe(false);
+  expect(selection.description).toEqual({
+    type: "allMatching",
+    query: "a",
+    excludedKeys: ["a2"]
+  });
+});
+
+test("the all-matching selection only applies to its query", async () => {
+  const dataQuery = createDataQuery();
+  await dataQuery.fetch("a");
+  const selection = new SelectionState(dataQuery);
+  selection.selectAllMatching();
+
+  await dataQuery.fetch("b");
+  expect(selection.isAllMatching).toBe(false);
+  expect(selection.isSelected("b1")).toBe(false);
+  expect(selection.selectedCount).toBe(0);
+  expect(selection.description).toEqual({ type: "keys", keys: [] });
+
+  await dataQuery.fetch("a");
+  expect(selection.isSelected("a1")).toBe(true);
+
+  await dataQuery.fetch("b");
+  selection.select("b1");
+  expect(selection.description).toEqual({ type: "keys", keys: ["b1"] });
+});
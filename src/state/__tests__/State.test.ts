@@ -0,0 +1,108 @@
+import {
+  Input,
+  InputGroup,
+  Validator,
+  Form,
+  MediaQueryState,
+  Task
+} from "../..";
+import { flush, defer } from "./helpers";
+
+describe("disposal", () => {
+  let warn: jest.SpyInstance;
+  beforeEach(() => {
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => warn.mockRestore());
+
+  test("warns when a disposed state is used", () => {
+    const input = new Input("", { name: "title" });
+    input.input("a");
+    expect(warn).not.toHaveBeenCalled();
+
+    input.dispose();
+    input.dispose();
+    expect(input.isDisposed).toBe(true);
+    input.input("b");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("input()");
+    expect(warn.mock.calls[0][0]).toContain("`title`");
+  });
+
+  test("does not warn in production", () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      const task = new Task(async () => {});
+      task.dispose();
+      task.invoke(null);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  test("removes the groups from their inputs' lookups", () => {
+    const input = new Input("");
+    const handleInputConfirm = jest.fn();
+    const group = new InputGroup(input, { handleInputConfirm });
+    const validator = new Validator(input);
+    const form = new Form(input, { action: async () => {} });
+    expect(input.validators).toEqual([validator]);
+    expect(input.forms).toEqual([form]);
+
+    group.dispose();
+    validator.dispose();
+    form.dispose();
+    expect(input.validators).toEqual([]);
+    expect(input.forms).toEqual([]);
+    input.confirm({ value: "a" });
+    expect(handleInputConfirm).not.toHaveBeenCalled();
+  });
+
+  test("cancels the pending tasks", async () => {
+    const input = new Input("");
+    const validation = defer();
+    const validator = new Validator(input, {
+      domain: () => validation.promise.then(() => null)
+    });
+    const submission = defer();
+    const form = new Form(input, { action: () => submission.promise });
+
+    input.confirm({ value: "a" });
+    await flush();
+    expect(validator.isValidationPending).toBe(true);
+    validator.dispose();
+    expect(validator.isValidationPending).toBe(false);
+
+    const submit = form.submit();
+    await flush();
+    expect(form.isSubmitting).toBe(true);
+    form.dispose();
+    expect(form.isSubmitting).toBe(false);
+    await submit;
+    expect(form.submitResult).toBe(void 0);
+  });
+
+  test("stops watching the media queries", () => {
+    const listeners: Function[] = [];
+    const removeListener = jest.fn();
+    const matchMedia = jest.fn(() => ({
+      matches: false,
+      addListener: (listener: Function) => listeners.push(listener),
+      removeListener
+    }));
+    const originalMatchMedia = window.matchMedia;
+    (window as any).matchMedia = matchMedia;
+    try {
+      const mediaQuery = new MediaQueryState({ wide: "(min-width: 800px)" });
+      listeners[0]({ matches: true });
+      expect(mediaQuery.query("wide")).toBe(true);
+
+      mediaQuery.dispose();
+      expect(removeListener).toHaveBeenCalledWith(listeners[0]);
+    } finally {
+      window.matchMedia = originalMatchMedia;
+    }
+  });
+});
@@ -0,0 +1,430 @@
+import { Task, TaskTimeoutError } from "../..";
+import { flush, defer, createFakeClock } from "./helpers";
+
+describe("concurrency", () => {
+  function createTask(concurrency: any, maxConcurrency?: number) {
+    const log: string[] = [];
+    const deferreds: { [arg: string]: ReturnType<typeof defer> } = {};
+    const task = new Task(
+      (arg: string, helpers) => {
+        log.push(`start ${arg}`);
+        helpers.onCancel(() => log.push(`cancel ${arg}`));
+        deferreds[arg] = defer();
+        return deferreds[arg].promise.then(() => arg);
+      },
+      { concurrency, maxConcurrency }
+    );
+    return { task, log, deferreds };
+  }
+
+  test("switch cancels the pending invocation", async () => {
+    const { task, log, deferreds } = createTask("switch");
+    const a = task.invoke("a");
+    task.invoke("b");
+    expect(log).toEqual(["start a", "cancel a", "start b"]);
+
+    await a;
+    deferreds.b.resolve();
+    await flush();
+    expect(task.result).toBe("b");
+    expect(task.isPending).toBe(false);
+  });
+
+  test("drop ignores invocations while pending", async () => {
+    const { task, log, deferreds } = createTask("drop");
+    task.invoke("a");
+    task.invoke("b");
+    expect(log).toEqual(["start a"]);
+
+    deferreds.a.resolve();
+    await flush();
+    expect(task.result).toBe("a");
+  });
+
+  test("queue runs invocations one after another", async () => {
+    const { task, log, deferreds } = createTask("queue");
+    task.invoke("a");
+    task.invoke("b");
+    expect(log).toEqual(["start a"]);
+    expect(task.queueLength).toBe(1);
+
+    deferreds.a.resolve();
+    await flush();
+    expect(log).toEqual(["start a", "start b"]);
+    expect(task.isPending).toBe(true);
+
+    deferreds.b.resolve();
+    await flush();
+    expect(task.result).toBe("b");
+    expect(task.isPending).toBe(false);
+  });
+
+  test("cancel drops queued invocations without running them", async () => {
+    const log: string[] = [];
+    const task = new Task(
+      (arg: string, helpers) => {
+        log.push(`start ${arg}`);
+        helpers.onCancel(() => log.push(`cancel ${arg}`));
+        return defer().promise;
+      },
+      { concurrency: "queue", history: 10 }
+    );
+    const invocations = ["a", "b", "c"].map(arg => task.invoke(arg));
+    task.cancel();
+    await Promise.all(invocations);
+    await flush();
+
+    expect(log).toEqual(["start a", "cancel a"]);
+    expect(task.isPending).toBe(false);
+    expect(task.queueLength).toBe(0);
+    expect(
+      task.history.map(({ args, outcome }) => ({ args, outcome }))
+    ).toEqual([{ args: "a", outcome: "canceled" }]);
+  });
+
+  test("parallel runs invocations up to the limit", async () => {
+    const { task, log, deferreds } = createTask("parallel", 2);
+    task.invoke("a");
+    task.invoke("b");
+    task.invoke("c");
+    expect(log).toEqual(["start a", "start b"]);
+    expect(task.queueLength).toBe(1);
+
+    deferreds.b.resolve();
+    await flush();
+    expect(log).toEqual(["start a", "start b", "start c"]);
+
+    task.cancel();
+    expect(task.isPending).toBe(false);
+    expect(log).toContain("cancel a");
+    expect(log).toContain("cancel c");
+  });
+});
+
+describe("retry and timeout", () => {
+  test("retries with exponential backoff", async () => {
+    const clock = createFakeClock();
+    let calls = 0;
+    const task = new Task(
+      async () => {
+        if (++calls < 3) throw Error(`failure ${calls}`);
+        return "done";
+      },
+      { clock, retry: { attempts: 3, delay: 100, factor: 2 } }
+    );
+    task.invoke(null);
+    await flush();
+    expect(calls).toBe(1);
+    expect(task.attempt).toBe(1);
+    expect(task.nextRetryAt).toBe(100);
+
+    clock.advance(99);
+    await flush();
+    expect(calls).toBe(1);
+    clock.advance(1);
+    await flush();
+    expect(calls).toBe(2);
+    expect(task.attempt).toBe(2);
+    expect(task.nextRetryAt).toBe(300);
+
+    clock.advance(200);
+    await flush();
+    expect(calls).toBe(3);
+    expect(task.result).toBe("done");
+    expect(task.isPending).toBe(false);
+  });
+
+  test("fails when the attempts run out or retryIf declines", async () => {
+    const clock = createFakeClock();
+    const task = new Task(
+      async (arg: string) => {
+        throw Error(arg);
+      },
+      {
+        clock,
+        retry: {
+          attempts: 2,
+          delay: 10,
+          retryIf: error => error.message !== "fatal"
+        }
+      }
+    );
+    task.invoke("fatal");
+    await flush();
+    expect(task.isError).toBe(true);
+    expect(task.error.message).toBe("fatal");
+
+    task.invoke("flaky");
+    await flush();
+    expect(task.isPending).toBe(true);
+    clock.advance(10);
+    await flush();
+    expect(task.isError).toBe(true);
+    expect(task.attempt).toBe(0);
+  });
+
+  test("times out an attempt and cancels it", async () => {
+    const clock = createFakeClock();
+    const log: string[] = [];
+    const task = new Task(
+      (arg: null, helpers) => {
+        helpers.onCancel(() => log.push("cancel"));
+        return new Promise(() => {});
+      },
+      { clock, timeout: 500 }
+    );
+    task.invoke(null);
+    clock.advance(500);
+    await flush();
+    expect(log).toEqual(["cancel"]);
+    expect(task.isPending).toBe(false);
+    expect(task.error).toBeInstanceOf(TaskTimeoutError);
+  });
+
+  test("retries after a timeout", async () => {
+    const clock = createFakeClock();
+    let calls = 0;
+    const task = new Task(
+      () => (++calls === 1 ? new Promise(() => {}) : Promise.resolve(calls)),
+      { clock, timeout: 50, retry: { attempts: 2, delay: 10 } }
+    );
+    task.invoke(null);
+    clock.advance(50);
+    await flush();
+    clock.advance(10);
+    await flush();
+    expect(task.result).toBe(2);
+    expect(clock.timerCount).toBe(0);
+  });
+});
+
+describe("abort signals", () => {
+  test("the helpers' signal aborts when the invocation is canceled", () => {
+    let signal: AbortSignal | null = null;
+    const task = new Task((arg: null, helpers) => {
+      signal = helpers.signal;
+      return new Promise(() => {});
+    });
+    task.invoke(null);
+    expect(signal!.aborted).toBe(false);
+    task.cancel();
+    expect(signal!.aborted).toBe(true);
+  });
+
+  test("aborting the invoke signal cancels only that invocation", async () => {
+    const deferreds = [defer(), defer()];
+    const task = new Task((index: number) => deferreds[index].promise, {
+      concurrency: "parallel"
+    });
+    const controller = new AbortController();
+    const first = task.invoke(0, { signal: controller.signal });
+    task.invoke(1);
+    controller.abort();
+    await first;
+    expect(task.isPending).toBe(true);
+
+    deferreds[1].resolve();
+    await flush();
+    expect(task.isPending).toBe(false);
+    expect(task.outcome).toBe("success");
+  });
+
+  test("an already aborted signal does not invoke", () => {
+    const action = jest.fn();
+    const task = new Task(action);
+    const controller = new AbortController();
+    controller.abort();
+    task.invoke(null, { signal: controller.signal });
+    expect(action).not.toHaveBeenCalled();
+  });
+});
+
+describe("pending indicator", () => {
+  test("shows after the delay and stays for the minimum duration", async () => {
+    const clock = createFakeClock();
+    const deferred = defer();
+    const task = new Task(() => deferred.promise, {
+      clock,
+      pendingIndicator: { delay: 100, minDuration: 300 }
+    });
+    task.invoke(null);
+    expect(task.isPending).toBe(true);
+    expect(task.isPendingVisible).toBe(false);
+
+    clock.advance(100);
+    expect(task.isPendingVisible).toBe(true);
+
+    deferred.resolve();
+    await flush();
+    expect(task.isPending).toBe(false);
+    expect(task.isPendingVisible).toBe(true);
+
+    clock.advance(299);
+    expect(task.isPendingVisible).toBe(true);
+    clock.advance(1);
+    expect(task.isPendingVisible).toBe(false);
+  });
+
+  test("never shows for a task faster than the delay", async () => {
+    const clock = createFakeClock();
+    const deferred = defer();
+    const task = new Task(() => deferred.promise, {
+      clock,
+      pendingIndicator: { delay: 100, minDuration: 300 }
+    });
+    task.invoke(null);
+    clock.advance(50);
+    deferred.resolve();
+    await flush();
+    clock.advance(100);
+    expect(task.isPendingVisible).toBe(false);
+    expect(clock.timerCount).toBe(0);
+  });
+});
+
+describe("history", () => {
+  test("records the most recent invocations with their timing", async () => {
+    const clock = createFakeClock(1000);
+    const deferreds: { [arg: string]: ReturnType<typeof defer> } = {};
+    const task = new Task(
+      (arg: string) => (deferreds[arg] = defer()).promise,
+      { clock, history: 2 }
+    );
+    task.invoke("a");
+    clock.advance(100);
+    deferreds.a.resolve();
+    await flush();
+
+    task.invoke("b");
+    clock.advance(50);
+    task.invoke("c");
+    clock.advance(300);
+    deferreds.c.reject(Error("failure"));
+    await flush();
+
+    expect(
+      task.history.map(({ args, outcome, startedAt, duration }) => ({
+        args,
+        outcome,
+        startedAt,
+        duration
+      }))
+    ).toEqual([
+      { args: "b", outcome: "superseded", startedAt: 1100, duration: 50 },
+      { args: "c", outcome: "error", startedAt: 1150, duration: 300 }
+    ]);
+    expect(task.historyStats).toEqual({
+      count: 2,
+      meanDuration: 175,
+      p95Duration: 300,
+      cancelRate: 0.5
+    });
+  });
+
+  test("records nothing by default", async () => {
+    const task = new Task(async () => 1);
+    await task.invoke(null);
+    expect(task.history).toEqual([]);
+    expect(task.historyStats.count).toBe(0);
+  });
+});
+
+describe("cache", () => {
+  function createTask(options: any = {}) {
+    const deferreds: ReturnType<typeof defer>[] = [];
+    const task = new Task(
+      (arg: { id: number }) => {
+        const deferred = defer<string>();
+        deferreds.push(deferred);
+        return deferred.promise;
+      },
+      { cache: options, clock: options.clock }
+    );
+    return { task, deferreds };
+  }
+
+  test("serves a cached result while revalidating it", async () => {
+    const { task, deferreds } = createTask();
+    task.invoke({ id: 1 });
+    deferreds[0].resolve("first");
+    await flush();
+    expect(task.isStale).toBe(false);
+
+    task.invoke({ id: 2 });
+    expect(task.result).toBe("first");
+    expect(task.isStale).toBe(false);
+    deferreds[1].resolve("other");
+    await flush();
+
+    task.invoke({ id: 1 });
+    expect(task.result).toBe("first");
+    expect(task.isStale).toBe(true);
+    deferreds[2].resolve("second");
+    await flush();
+    expect(task.result).toBe("second");
+    expect(task.isStale).toBe(false);
+  });
+
+  test("keeps the stale result when revalidation fails", async () => {
+    const { task, deferreds } = createTask();
+    task.invoke({ id: 1 });
+    deferreds[0].resolve("first");
+    await flush();
+
+    task.invoke({ id: 1 });
+    deferreds[1].reject(Error("failure"));
+    await flush();
+    expect(task.result).toBe("first");
+    expect(task.isStale).toBe(true);
+    expect(task.isError).toBe(true);
+  });
+
+  test("expires entries after the ttl and evicts the oldest", async () => {
+    const clock = createFakeClock();
+    const { task, deferreds } = createTask({
+      ttl: 1000,
+      maxEntries: 1,
+      clock
+    });
+    task.invoke({ id: 1 });
+    deferreds[0].resolve("first");
+    await flush();
+
+    clock.advance(1000);
+    task.invoke({ id: 1 });
+    expect(task.isStale).toBe(false);
+    deferreds[1].resolve("second");
+    await flush();
+
+    task.invoke({ id: 2 });
+    deferreds[2].resolve("other");
+    await flush();
+    task.invoke({ id: 1 });
+    expect(task.isStale).toBe(false);
+  });
+
+  test("invalidate marks the current result as stale", async () => {
+    const { task, deferreds } = createTask();
+    task.invoke({ id: 1 });
+    deferreds[0].resolve("first");
+    await flush();
+
+    task.invalidate({ id: 1 });
+    expect(task.isStale).toBe(true);
+    expect(task.result).toBe("first");
+    task.invoke({ id: 1 });
+    deferreds[1].resolve("second");
+    await flush();
+    expect(task.isStale).toBe(false);
+
+    task.invoke({ id: 1 });
+    expect(task.isStale).toBe(true);
+    task.invalidate();
+    task.invoke({ id: 1 });
+    expect(task.result).toBe("second");
+    expect(task.isStale).toBe(true);
+    deferreds[3].resolve("third");
+    await flush();
+    expect(task.result).toBe("third");
+  });
+});
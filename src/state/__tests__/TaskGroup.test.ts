@@ -0,0 +1,62 @@
+import { Task, TaskGroup, DataQuery } from "../..";
+import { flush, defer } from "./helpers";
+
+function createPendingTask() {
+  const deferred = defer<number>();
+  const task = new Task((arg: null, helpers) => {
+    helpers.reportProgress(0.5);
+    return deferred.promise;
+  });
+  return { task, deferred };
+}
+
+test("aggregates the pending state and progress of its tasks", async () => {
+  const first = createPendingTask();
+  const second = createPendingTask();
+  const group = new TaskGroup([first.task, second.task]);
+  expect(group.isAnyPending).toBe(false);
+  expect(group.progress).toBe(null);
+
+  first.task.invoke(null);
+  expect(group.isAnyPending).toBe(true);
+  expect(group.pendingTasks).toEqual([first.task]);
+  expect(group.progress).toBe(0.5);
+
+  first.deferred.resolve(1);
+  await flush();
+  expect(group.isAnyPending).toBe(false);
+});
+
+test("cancels every pending task, including added members", () => {
+  const first = createPendingTask();
+  const second = createPendingTask();
+  const nested = new TaskGroup([second.task]);
+  const group = new TaskGroup([first.task]);
+  group.add(nested);
+  first.task.invoke(null);
+  second.task.invoke(null);
+  expect(group.tasks).toEqual([first.task, second.task]);
+
+  group.cancelAll();
+  expect(first.task.outcome).toBe("canceled");
+  expect(second.task.outcome).toBe("canceled");
+
+  group.remove(nested);
+  expect(group.tasks).toEqual([first.task]);
+});
+
+test("includes the refresh of a data query", async () => {
+  let version = 0;
+  const dataQuery = new DataQuery<string, number>({
+    fetch: async () => [version]
+  });
+  const group = new TaskGroup([dataQuery]);
+  await dataQuery.fetch("a");
+
+  version = 1;
+  const refresh = dataQuery.refresh();
+  expect(group.isAnyPending).toBe(true);
+  group.cancelAll();
+  await refresh;
+  expect(dataQuery.items).toEqual([0]);
+});
@@ -0,0 +1,105 @@
+import { Task, TaskPipeline, Form, Input } from "../..";
+import { flush, defer } from "./helpers";
+
+test("runs the stages in order, passing on each result", async () => {
+  const pipeline = new TaskPipeline<number, string>([
+    async (arg: number) => arg + 1,
+    new Task(async (arg: number) => arg * 10),
+    async (arg: number) => `result ${arg}`
+  ]);
+  await pipeline.invoke(1);
+  expect(pipeline.result).toBe("result 20");
+  expect(pipeline.stage).toBe(null);
+});
+
+test("reports the running stage and the overall progress", async () => {
+  const deferreds = [defer<number>(), defer<number>()];
+  const pipeline = new TaskPipeline<null, number>([
+    (arg: null, helpers) => {
+      helpers.reportProgress(0.5);
+      return deferreds[0].promise;
+    },
+    () => deferreds[1].promise
+  ]);
+  pipeline.invoke(null);
+  expect(pipeline.stage).toBe(0);
+  expect(pipeline.progress).toEqual({
+    stage: 0,
+    stageProgress: 0.5,
+    overall: 0.25
+  });
+
+  deferreds[0].resolve(1);
+  await flush();
+  expect(pipeline.stage).toBe(1);
+  expect(pipeline.progress).toEqual({ stage: 1, overall: 0.5 });
+});
+
+test("forwards the progress of a task stage", async () => {
+  const deferred = defer<number>();
+  const stage = new Task((arg: null, helpers) => {
+    helpers.reportProgress(0.5);
+    return deferred.promise;
+  });
+  const pipeline = new TaskPipeline([async () => null, stage]);
+  pipeline.invoke(null);
+  await flush();
+  expect(pipeline.progress).toEqual({
+    stage: 1,
+    stageProgress: 0.5,
+    overall: 0.75
+  });
+});
+
+test("fails when a stage fails, and cancels the running stage", async () => {
+  const failing = new TaskPipeline([
+    async () => 1,
+    async () => {
+      throw Error("failure");
+    }
+  ]);
+  await failing.invoke(null);
+  expect(failing.error.message).toBe("failure");
+
+  const stage = new Task(() => new Promise(() => {}));
+  const pipeline = new TaskPipeline([stage]);
+  pipeline.invoke(null);
+  await flush();
+  expect(stage.isPending).toBe(true);
+  pipeline.cancel();
+  await flush();
+  expect(stage.outcome).toBe("canceled");
+});
+
+test("the form's submit runs validation and action as stages", async () => {
+  const deferred = defer<number>();
+  const form = new Form(
+    { name: new Input("value") },
+    {
+      action: (value, helpers) => {
+        helpers.reportProgress(0.5);
+        return deferred.promise;
+      }
+    }
+  );
+  const submit = form.submit();
+  expect(form.submitTask.progress).toEqual({
+    phase: "validation",
+    stage: 0,
+    overall: 0
+  });
+
+  await flush();
+  expect(form.submitTask.progress).toEqual({
+    phase: "action",
+    actionProgress: 0.5,
+    stage: 1,
+    stageProgress: 0.5,
+    overall: 0.75
+  });
+  expect(form.submitActionProgress).toBe(0.5);
+
+  deferred.resolve(1);
+  await submit;
+  expect(form.submitResult).toEqual({ outcome: "submit", result: 1 });
+});
@@ -0,0 +1,58 @@
+import { UndoableTask } from "../..";
+import { flush, createFakeClock } from "./helpers";
+
+function createTask() {
+  const clock = createFakeClock();
+  const committed: string[] = [];
+  const task = new UndoableTask(
+    async (arg: string) => {
+      committed.push(arg);
+      return arg;
+    },
+    { delay: 5000, countdownInterval: 1000, clock }
+  );
+  return { task, clock, committed };
+}
+
+test("commits once the window expires, counting down", async () => {
+  const { task, clock, committed } = createTask();
+  task.invoke("a");
+  expect(task.isPendingCommit).toBe(true);
+  expect(task.pendingCommitArgs).toBe("a");
+  expect(task.commitAt).toBe(5000);
+  expect(task.remainingTime).toBe(5000);
+
+  clock.advance(1000);
+  expect(task.remainingTime).toBe(4000);
+  clock.advance(4000);
+  await flush();
+  expect(committed).toEqual(["a"]);
+  expect(task.isPendingCommit).toBe(false);
+  expect(task.result).toBe("a");
+  expect(clock.timerCount).toBe(0);
+});
+
+test("undo cancels the invocation before it runs", async () => {
+  const { task, clock, committed } = createTask();
+  const invocation = task.invoke("a");
+  expect(task.undo()).toBe(true);
+  await invocation;
+  clock.advance(5000);
+  expect(committed).toEqual([]);
+  expect(task.outcome).toBe("canceled");
+  expect(task.undo()).toBe(false);
+});
+
+test("a new invocation commits the pending one right away", async () => {
+  const { task, clock, committed } = createTask();
+  task.invoke("a");
+  task.invoke("b");
+  await flush();
+  expect(committed).toEqual(["a"]);
+  expect(task.pendingCommitArgs).toBe("b");
+
+  task.commitNow();
+  await flush();
+  expect(committed).toEqual(["a", "b"]);
+  expect(clock.timerCount).toBe(0);
+});
@@ -0,0 +1,45 @@
+import { Input, Validator } from "../..";
+import { flush } from "./helpers";
+
+describe("domain validation", () => {
+  test("reports a domain error with its correction", async () => {
+    const input = new Input("");
+    const validator = new Validator(input, {
+      domain: async value =>
+        value === value.trim()
+          ? null
+          : { error: "untrimmed", correction: value.trim() }
+    });
+
+    input.confirm({ value: " a " });
+    await flush();
+    expect(validator.error).toEqual({
+      errorType: "domain",
+      error: "untrimmed",
+      correction: "a"
+    });
+    expect(validator.correction).toBe("a");
+    expect(validator.isConclusivelyInvalid).toBe(true);
+  });
+
+  test("is in the crash state if the domain validator throws", async () => {
+    const crash = Error("crash");
+    const input = new Input("");
+    const validator = new Validator(input, {
+      domain: async () => {
+        throw crash;
+      }
+    });
+
+    input.confirm({ value: "a" });
+    await flush();
+    expect(validator.isValidationPending).toBe(false);
+    expect(validator.domainResult).toEqual({
+      isError: true,
+      isCrash: true,
+      error: crash
+    });
+    expect(validator.error).toEqual({ errorType: "crash", error: crash });
+    expect(validator.isConclusivelyValid).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Resolves once the pending promise callbacks have run.
+ */
+export function flush() {
+  return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+/**
+ * Creates a promise along with the functions that settle it.
+ */
+export function defer<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Creates a clock whose time only moves when advanced.
+ */
+export function createFakeClock(start = 0) {
+  let now = start;
+  let nextId = 1;
+  let timers: { id: number; at: number; callback: () => void }[] = [];
+  return {
+    now: () => now,
+    setTimeout(callback: () => void, ms: number) {
+      const id = nextId++;
+      timers.push({ id, at: now + ms, callback });
+      return id;
+    },
+    clearTimeout(id: number) {
+      timers = timers.filter(timer => timer.id !== id);
+    },
+    /**
+     * Moves the time forward, running the callbacks that become due in order.
+     */
+    advance(ms: number) {
+      const end = now + ms;
+      for (;;) {
+        const due = timers
+          .filter(timer => timer.at <= end)
+          .sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+        timers = timers.filter(timer => timer !== due);
+        now = due.at;
+        due.callback();
+      }
+      now = end;
+    },
+    get timerCount() {
+      return timers.length;
+    }
+  };
+}
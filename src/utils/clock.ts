@@ -0,0 +1,34 @@
+/**
+ * Describes a source of time and timers. States that schedule work accept a
+ * clock so that the scheduling can be controlled, e.g. with fake timers in
+ * tests.
+ */
+export interface Clock {
+  /**
+   * Returns the current time in milliseconds since the epoch.
+   */
+  now(): number;
+
+  /**
+   * Schedules a callback after the given number of milliseconds.
+   * @returns a handle that can be passed to `clearTimeout`.
+   */
+  setTimeout(callback: () => void, ms: number): any;
+
+  /**
+   * Cancels a callback scheduled by `setTimeout`.
+   * @param handle
+   */
+  clearTimeout(handle: any): void;
+}
+
+/**
+ * The clock backed by the global `Date.now`, `setTimeout` and `clearTimeout`.
+ * The globals are looked up on every call, so fake timers installed after the
+ * fact are respected.
+ */
+export const defaultClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle)
+};
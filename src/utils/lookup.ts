@@ -1,7 +1,9 @@
 import { reaction } from "mobx";
 
 /**
- * @ignore
+ * Keeps the lookup sets of the queried targets up to date with the source.
+ * Returns a function that stops the lookup and removes the source from all of
+ * the targets' lookup sets.
  * @ignore
  */
 export default function createLookup<TDest, TSrc>(
@@ -10,7 +12,7 @@ export default function createLookup<TDest, TSrc>(
   set: (dest: TDest) => Set<TSrc>
 ) {
   let lastTargets = new Set<TDest>();
-  return reaction(
+  const disposeReaction = reaction(
     query,
     targets => {
       const currentTargets = new Set<TDest>();
@@ -25,4 +27,9 @@ export default function createLookup<TDest, TSrc>(
     },
     { fireImmediately: true }
   );
+  return () => {
+    disposeReaction();
+    lastTargets.forEach(target => set(target).delete(src));
+    lastTargets = new Set();
+  };
 }
@@ -0,0 +1,31 @@
+/**
+ * Describes a source that tells whether the page is hidden, e.g. because the
+ * user switched to another browser tab.
+ */
+export interface VisibilitySource {
+  /**
+   * Returns true if the page is currently hidden.
+   */
+  isHidden(): boolean;
+
+  /**
+   * Registers a listener to be called whenever the visibility may have
+   * changed.
+   * @returns a function that unregisters the listener.
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * The visibility source backed by the DOM's Page Visibility API. Outside of a
+ * browser, the page is never hidden.
+ */
+export const documentVisibility: VisibilitySource = {
+  isHidden: () =>
+    typeof document !== "undefined" && document.visibilityState === "hidden",
+  subscribe: listener => {
+    if (typeof document === "undefined") return () => {};
+    document.addEventListener("visibilitychange", listener);
+    return () => document.removeEventListener("visibilitychange", listener);
+  }
+};
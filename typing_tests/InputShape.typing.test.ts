@@ -1,5 +1,6 @@
 import Input from "../src/state/Input";
 import InputGroup from "../src/state/InputGroup";
+import InputList from "../src/state/InputList";
 
 () => {
   const g = new InputGroup(new Input<string>(""));
@@ -73,3 +74,17 @@ import InputGroup from "../src/state/InputGroup";
   const test8: number = group3.value.group1.foo;
   const test8a: Input<boolean> = group3.inputs.group1.bar;
 };
+
+() => {
+  const list = new InputList(() => ({
+    street: new Input<string>(""),
+    number: new Input<number>(0)
+  }));
+  const group = new InputGroup({ name: new Input<string>(""), list });
+
+  const test1: string = list.value[0].street;
+  const test2: number = list.value[0].number;
+  const test3: Input<string> = list.inputs[0].street;
+  const test4: string = group.value.list[0].street;
+  const test5: Input<number> = group.inputs.list[0].number;
+};